@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Asset" ADD COLUMN     "derivatives" JSONB,
+ADD COLUMN     "height" INTEGER,
+ADD COLUMN     "width" INTEGER;
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "Asset" ADD COLUMN     "contentHash" TEXT,
+ADD COLUMN     "uploadedById" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Asset_contentHash_idx" ON "Asset"("contentHash");
+
+-- CreateIndex
+CREATE INDEX "Asset_storageRef_idx" ON "Asset"("storageRef");
+
+-- CreateIndex
+CREATE INDEX "Asset_uploadedById_idx" ON "Asset"("uploadedById");
+
+-- AddForeignKey
+ALTER TABLE "Asset" ADD CONSTRAINT "Asset_uploadedById_fkey" FOREIGN KEY ("uploadedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
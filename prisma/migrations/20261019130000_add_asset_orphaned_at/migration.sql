@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Asset" ADD COLUMN     "orphanedAt" TIMESTAMP(3);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "tier" TEXT NOT NULL DEFAULT 'free';
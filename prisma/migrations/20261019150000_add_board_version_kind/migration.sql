@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "BoardVersion" ADD COLUMN     "kind" TEXT NOT NULL DEFAULT 'named';
+
+-- CreateIndex
+CREATE INDEX "BoardVersion_boardId_kind_idx" ON "BoardVersion"("boardId", "kind");
@@ -10,15 +10,5 @@ process.on('beforeExit', async () => {
   await prisma.$disconnect();
 });
 
-process.on('SIGINT', async () => {
-  await prisma.$disconnect();
-  process.exit(0);
-});
-
-process.on('SIGTERM', async () => {
-  await prisma.$disconnect();
-  process.exit(0);
-});
-
 export default prisma;
 
@@ -1,10 +1,23 @@
 import { Request, Response } from 'express';
 import { prisma } from '../config/database';
-import { storage } from '../config/firebase';
-import { v4 as uuidv4 } from 'uuid';
+import { openFile, verifyFileSignature } from '../storage/assetStorage';
+import { ASSET_GC_GRACE_MS, collectBoardAssets } from '../utils/assetGarbageCollection';
+import { withReadableAssetUrls } from '../utils/assetUrls';
+import {
+  PreparedAssetFile,
+  createAssetOnFile,
+  findSharedAssetFile,
+  hashFileContents,
+  prepareAssetFile,
+  releaseAssetFiles,
+  storeSharedAssetFile
+} from '../utils/assetFiles';
+import { detectFileType, normalizeMimeType } from '../utils/fileTypes';
+import { findExceededQuota, quotaExceededError } from '../utils/storageQuotas';
+import { validateFileSize, validateFileType } from '../utils/validators';
 
 /**
- * Upload asset to Firebase Storage
+ * Upload asset to storage
  */
 export async function uploadAsset(req: Request, res: Response): Promise<void> {
   try {
@@ -43,37 +56,58 @@ export async function uploadAsset(req: Request, res: Response): Promise<void> {
     }
 
     const file = req.file;
-    const fileId = uuidv4();
-    const fileName = `boards/${boardId}/${fileId}-${file.originalname}`;
 
-    // Upload to Firebase Storage
-    const bucket = storage.bucket();
-    const fileUpload = bucket.file(fileName);
+    if (!validateFileSize(file.size)) {
+      res.status(413).json({ error: 'File is too large' });
+      return;
+    }
 
-    await fileUpload.save(file.buffer, {
-      metadata: {
-        contentType: file.mimetype,
-      },
-    });
+    // The declared type comes from the client; the contents decide what the file is
+    const fileType = detectFileType(file.buffer);
+    if (!fileType || !validateFileType(fileType)) {
+      res.status(415).json({ error: 'Unsupported file type' });
+      return;
+    }
 
-    // Make file publicly accessible
-    await fileUpload.makePublic();
-
-    const publicUrl = `https://storage.googleapis.com/${bucket.name}/${fileName}`;
-
-    // Save asset metadata to database
-    const asset = await prisma.asset.create({
-      data: {
-        boardId,
-        fileName: file.originalname,
-        fileType: file.mimetype,
-        fileSize: file.size,
-        url: publicUrl,
-        storageRef: fileName,
-      },
-    });
+    const declaredType = normalizeMimeType(file.mimetype);
+    if (declaredType !== fileType) {
+      res.status(400).json({ error: `File content (${fileType}) does not match its declared type (${declaredType})` });
+      return;
+    }
+
+    // Content that is already stored (the same logo on another board) is referenced, not stored again
+    const contentHash = hashFileContents(file.buffer);
 
-    res.status(201).json(asset);
+    const exceededQuota = await findExceededQuota(userId, boardId, file.size, contentHash);
+    if (exceededQuota) {
+      res.status(413).json(quotaExceededError(exceededQuota));
+      return;
+    }
+
+    const assetData = { boardId, fileName: file.originalname, uploadedById: userId };
+    let asset = await createAssetOnFile(await findSharedAssetFile(contentHash), assetData);
+
+    if (!asset) {
+      // Images are normalized (orientation, no EXIF/GPS metadata) and get resized derivatives;
+      // SVGs are sanitized, since they are rendered inline
+      let preparedFile: PreparedAssetFile;
+      try {
+        preparedFile = await prepareAssetFile(file.buffer, fileType);
+      } catch (error) {
+        res.status(400).json({ error: 'Could not read image file' });
+        return;
+      }
+
+      // Upload to storage (publicly readable only on public boards)
+      const storedFile = await storeSharedAssetFile(contentHash, preparedFile, board.isPublic);
+      asset = await createAssetOnFile(storedFile, assetData);
+      if (!asset) {
+        throw new Error(`Stored files of ${contentHash} were released while the asset was created`);
+      }
+    }
+
+    const [readableAsset] = await withReadableAssetUrls([asset], board.isPublic);
+    res.status(201).json(readableAsset);
   } catch (error) {
     console.error('Error uploading asset:', error);
     res.status(500).json({ error: 'Failed to upload asset' });
@@ -114,7 +148,7 @@ export async function getAssets(req: Request, res: Response): Promise<void> {
       orderBy: { uploadedAt: 'desc' }
     });
 
-    res.json(assets);
+    res.json(await withReadableAssetUrls(assets, board.isPublic));
   } catch (error) {
     console.error('Error fetching assets:', error);
     res.status(500).json({ error: 'Failed to fetch assets' });
@@ -159,19 +193,14 @@ export async function deleteAsset(req: Request, res: Response): Promise<void> {
       return;
     }
 
-    // Delete from Firebase Storage
-    try {
-      const bucket = storage.bucket();
-      await bucket.file(asset.storageRef).delete();
-    } catch (error) {
-      console.warn('Failed to delete file from storage:', error);
-    }
-
     // Delete from database
     await prisma.asset.delete({
       where: { id: assetId }
     });
 
+    // Delete from storage, with any derivatives, unless other assets share the files
+    await releaseAssetFiles(asset);
+
     res.json({ message: 'Asset deleted successfully' });
   } catch (error) {
     console.error('Error deleting asset:', error);
@@ -179,3 +208,124 @@ export async function deleteAsset(req: Request, res: Response): Promise<void> {
   }
 }
 
+/**
+ * Dry run of asset garbage collection for a board: assets no element uses, when
+ * they will be purged, and stored files nothing owns. Nothing is changed.
+ */
+export async function getOrphanedAssets(req: Request, res: Response): Promise<void> {
+  try {
+    const { boardId } = req.params;
+    const userId = req.user?.dbUserId;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const board = await prisma.board.findUnique({
+      where: { id: boardId },
+      include: { members: true }
+    });
+
+    if (!board) {
+      res.status(404).json({ error: 'Board not found' });
+      return;
+    }
+
+    const hasAccess =
+      board.ownerId === userId ||
+      board.members.some(m => m.userId === userId && m.role !== 'viewer');
+
+    if (!hasAccess) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const report = await collectBoardAssets(boardId, true);
+
+    res.json({
+      orphanedAssets: report.orphanedAssets,
+      purgedAssets: report.purgedAssets,
+      restoredAssets: report.restoredAssets,
+      deletedFiles: report.deletedFiles,
+      gracePeriodDays: ASSET_GC_GRACE_MS / (24 * 60 * 60 * 1000)
+    });
+  } catch (error) {
+    console.error('Error fetching orphaned assets:', error);
+    res.status(500).json({ error: 'Failed to fetch orphaned assets' });
+  }
+}
+
+/**
+ * Serve a stored file through this server (local disk storage). Needs a valid
+ * signed URL, a public board, or an authenticated user who can view the board.
+ */
+export async function serveAssetFile(req: Request, res: Response): Promise<void> {
+  try {
+    const storageRef: string = req.params[0] || '';
+    const userId = req.user?.dbUserId;
+
+    // Files are stored per board (boards/<boardId>/...) or, for shared uploads, by content (blobs/<hash>/...)
+    const boardMatch = /^boards\/([^/]+)\/.+$/.exec(storageRef);
+    const blobMatch = /^blobs\/([0-9a-f]{64})\/.+$/.exec(storageRef);
+    if ((!boardMatch && !blobMatch) || storageRef.split('/').some(segment => segment === '..' || segment === '.')) {
+      res.status(404).json({ error: 'File not found' });
+      return;
+    }
+
+    const { expires, signature } = req.query;
+    const isSigned = verifyFileSignature(storageRef, expires, signature);
+
+    if (!isSigned) {
+      // Shared files are readable through any board that uses them
+      const boards = await prisma.board.findMany({
+        where: boardMatch
+          ? { id: boardMatch[1] }
+          : { assets: { some: { contentHash: blobMatch![1] } } },
+        include: { members: true }
+      });
+
+      if (boards.length === 0) {
+        res.status(404).json({ error: 'File not found' });
+        return;
+      }
+
+      // Files of public boards are readable by anyone, like public bucket objects
+      if (!boards.some(board => board.isPublic)) {
+        if (!userId) {
+          res.status(401).json({ error: 'Unauthorized' });
+          return;
+        }
+
+        const hasAccess = boards.some(board =>
+          board.ownerId === userId ||
+          board.members.some(m => m.userId === userId));
+
+        if (!hasAccess) {
+          res.status(403).json({ error: 'Access denied' });
+          return;
+        }
+      }
+    }
+
+    const file = await openFile(storageRef);
+    if (!file) {
+      res.status(404).json({ error: 'File not found' });
+      return;
+    }
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Length', file.size);
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+
+    file.stream.on('error', error => {
+      console.error('Error streaming file:', error);
+      res.destroy(error);
+    });
+    file.stream.pipe(res);
+  } catch (error) {
+    console.error('Error serving file:', error);
+    res.status(500).json({ error: 'Failed to serve file' });
+  }
+}
@@ -1,6 +1,11 @@
 import { Request, Response } from 'express';
 import { prisma } from '../config/database';
-import * as Y from 'yjs';
+import { notifyRoleChanged, revokeBoardAccess } from '../websocket/collaboration';
+import { createEmptyProjectData, encodeProjectState } from '../utils/projectState';
+import { createUrlSigner, setBoardFilesPublic, withReadableAssetUrls, withReadableThumbnails } from '../utils/assetUrls';
+import { syncSharedFileVisibility } from '../utils/assetFiles';
+
+const MEMBER_ROLES = ['editor', 'viewer'];
 
 /**
  * Get all boards for the authenticated user
@@ -78,8 +83,8 @@ export async function listBoards(req: Request, res: Response): Promise<void> {
     });
 
     res.json({
-      ownedBoards,
-      sharedBoards
+      ownedBoards: await withReadableThumbnails(ownedBoards, board => board.isPublic),
+      sharedBoards: await withReadableThumbnails(sharedBoards, board => board.isPublic)
     });
   } catch (error) {
     console.error('Error listing boards:', error);
@@ -106,8 +111,7 @@ export async function createBoard(req: Request, res: Response): Promise<void> {
     }
 
     // Create new Yjs document for the board
-    const yDoc = new Y.Doc();
-    const yDocState = Y.encodeStateAsUpdate(yDoc);
+    const yDocState = encodeProjectState(createEmptyProjectData());
 
     // Create board
     const board = await prisma.board.create({
@@ -116,7 +120,7 @@ export async function createBoard(req: Request, res: Response): Promise<void> {
         description: description || null,
         isPublic: isPublic || false,
         ownerId: userId,
-        yDocState: Buffer.from(yDocState)
+        yDocState
       },
       include: {
         owner: {
@@ -193,7 +197,12 @@ export async function getBoard(req: Request, res: Response): Promise<void> {
     // Don't send binary yDocState to client (handled by WebSocket)
     const { yDocState, ...boardData } = board;
 
-    res.json(boardData);
+    const sign = createUrlSigner(board.isPublic);
+    res.json({
+      ...boardData,
+      thumbnail: board.thumbnail && await sign(board.thumbnail),
+      assets: await withReadableAssetUrls(board.assets, board.isPublic)
+    });
   } catch (error) {
     console.error('Error fetching board:', error);
     res.status(500).json({ error: 'Failed to fetch board' });
@@ -248,6 +257,11 @@ export async function updateBoard(req: Request, res: Response): Promise<void> {
       }
     });
 
+    // Stored files are only publicly readable while the board is public
+    if (updatedBoard.isPublic !== board.isPublic) {
+      await setBoardFilesPublic(id, updatedBoard.isPublic);
+    }
+
     res.json(updatedBoard);
   } catch (error) {
     console.error('Error updating board:', error);
@@ -283,11 +297,26 @@ export async function deleteBoard(req: Request, res: Response): Promise<void> {
       return;
     }
 
+    // Shared files this board kept public may have to become private once it is gone
+    const sharedFiles = board.isPublic
+      ? await prisma.asset.findMany({
+          where: { boardId: id, contentHash: { not: null } },
+          distinct: ['storageRef'],
+          select: { storageRef: true, derivatives: true, contentHash: true }
+        })
+      : [];
+
     // Delete board (cascade will handle related records)
     await prisma.board.delete({
       where: { id }
     });
 
+    for (const sharedFile of sharedFiles) {
+      await syncSharedFileVisibility(sharedFile).catch(error => {
+        console.warn(`Failed to update visibility of ${sharedFile.storageRef}:`, error);
+      });
+    }
+
     res.json({ message: 'Board deleted successfully' });
   } catch (error) {
     console.error('Error deleting board:', error);
@@ -353,6 +382,9 @@ export async function addBoardMember(req: Request, res: Response): Promise<void>
       }
     });
 
+    // A user already viewing a public board gets their new role live
+    notifyRoleChanged(id, member.userId, member.role);
+
     res.status(201).json(member);
   } catch (error: any) {
     if (error.code === 'P2002') {
@@ -364,6 +396,74 @@ export async function addBoardMember(req: Request, res: Response): Promise<void>
   }
 }
 
+/**
+ * Change a board member's role
+ */
+export async function updateBoardMemberRole(req: Request, res: Response): Promise<void> {
+  try {
+    const { id, memberId } = req.params;
+    const userId = req.user?.dbUserId;
+    const { role } = req.body;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    if (!MEMBER_ROLES.includes(role)) {
+      res.status(400).json({ error: `Role must be one of: ${MEMBER_ROLES.join(', ')}` });
+      return;
+    }
+
+    // Check if current user owns the board
+    const board = await prisma.board.findUnique({
+      where: { id }
+    });
+
+    if (!board) {
+      res.status(404).json({ error: 'Board not found' });
+      return;
+    }
+
+    if (board.ownerId !== userId) {
+      res.status(403).json({ error: 'Only the owner can change member roles' });
+      return;
+    }
+
+    const existingMember = await prisma.boardMember.findUnique({
+      where: { id: memberId }
+    });
+
+    if (!existingMember || existingMember.boardId !== id) {
+      res.status(404).json({ error: 'Member not found' });
+      return;
+    }
+
+    const member = await prisma.boardMember.update({
+      where: { id: memberId },
+      data: { role },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            profileImage: true
+          }
+        }
+      }
+    });
+
+    // Flip live collaboration sessions between edit and read-only mode
+    notifyRoleChanged(id, member.userId, member.role);
+
+    res.json(member);
+  } catch (error) {
+    console.error('Error updating board member role:', error);
+    res.status(500).json({ error: 'Failed to update board member role' });
+  }
+}
+
 /**
  * Remove member from board
  */
@@ -393,10 +493,17 @@ export async function removeBoardMember(req: Request, res: Response): Promise<vo
     }
 
     // Remove member
-    await prisma.boardMember.delete({
+    const member = await prisma.boardMember.delete({
       where: { id: memberId }
     });
 
+    // Removed users keep only what anyone has: read-only access to public boards
+    if (board.isPublic) {
+      notifyRoleChanged(id, member.userId, 'viewer');
+    } else {
+      revokeBoardAccess(id, member.userId);
+    }
+
     res.json({ message: 'Member removed successfully' });
   } catch (error) {
     console.error('Error removing board member:', error);
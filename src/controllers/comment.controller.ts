@@ -0,0 +1,712 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { emitToBoard } from '../websocket/collaboration';
+import { readBoardProjectData } from '../websocket/boardDocuments';
+import { findMentionedMembers } from '../utils/mentions';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+const MAX_EMOJI_LENGTH = 32;
+
+const commentAuthorSelect = {
+  id: true,
+  name: true,
+  email: true,
+  profileImage: true
+};
+
+const commentInclude = Prisma.validator<Prisma.CommentInclude>()({
+  user: { select: commentAuthorSelect },
+  reactions: {
+    select: { emoji: true, userId: true }
+  },
+  mentions: {
+    select: {
+      user: { select: commentAuthorSelect }
+    }
+  },
+  _count: { select: { replies: true } }
+});
+
+interface BoardAccess {
+  isPublic: boolean;
+  role: string | null;
+  memberUserIds: string[];
+}
+
+/**
+ * Resolve the caller's role on a board.
+ * Returns null when the board does not exist; role is null when the caller has no membership.
+ */
+async function getBoardRole(boardId: string, userId?: string): Promise<BoardAccess | null> {
+  const board = await prisma.board.findUnique({
+    where: { id: boardId },
+    include: { members: true }
+  });
+
+  if (!board) {
+    return null;
+  }
+
+  let role: string | null = null;
+  if (userId && board.ownerId === userId) {
+    role = 'owner';
+  } else if (userId) {
+    const member = board.members.find(m => m.userId === userId);
+    role = member ? member.role : null;
+  }
+
+  return {
+    isPublic: board.isPublic,
+    role,
+    memberUserIds: [board.ownerId, ...board.members.map(m => m.userId)]
+  };
+}
+
+function parsePosition(value: any): number | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function parseElementId(value: any): string | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  return typeof value === 'string' ? value : undefined;
+}
+
+function parsePagination(query: Request['query']): { page: number; limit: number } {
+  const page = Math.max(parseInt(String(query.page || '1'), 10) || 1, 1);
+  const limit = Math.min(
+    Math.max(parseInt(String(query.limit || DEFAULT_PAGE_SIZE), 10) || DEFAULT_PAGE_SIZE, 1),
+    MAX_PAGE_SIZE
+  );
+  return { page, limit };
+}
+
+/**
+ * Resolve @mentions in content against the board's members (see findMentionedMembers);
+ * authors do not mention themselves
+ */
+async function resolveMentions(
+  content: string,
+  memberUserIds: string[],
+  authorId: string
+): Promise<string[]> {
+  if (!content.includes('@')) return [];
+
+  const members = await prisma.user.findMany({
+    where: { id: { in: memberUserIds } },
+    select: { id: true, email: true, name: true }
+  });
+
+  return findMentionedMembers(content, members).filter(memberId => memberId !== authorId);
+}
+
+/**
+ * Whether the board's current project data has an element with this id
+ */
+async function boardHasElement(boardId: string, elementId: string): Promise<boolean> {
+  const board = await prisma.board.findUnique({
+    where: { id: boardId },
+    select: { yDocState: true }
+  });
+  if (!board) return false;
+
+  const projectData = readBoardProjectData(boardId, board.yDocState);
+  return [projectData.elements || [], ...(projectData.pages || []).map(page => page.elements || [])]
+    .some(elements => elements.some(element => element.id === elementId));
+}
+
+/**
+ * Broadcast the full comment after a change, in the same shape as edits
+ */
+async function emitCommentUpdated(boardId: string, commentId: string): Promise<void> {
+  const comment = await prisma.comment.findUnique({
+    where: { id: commentId },
+    include: commentInclude
+  });
+  emitToBoard(boardId, 'comment-updated', { comment });
+}
+
+async function recordMentions(commentId: string, userIds: string[]): Promise<void> {
+  if (userIds.length === 0) return;
+
+  await prisma.commentMention.createMany({
+    data: userIds.map(userId => ({ commentId, userId })),
+    skipDuplicates: true
+  });
+}
+
+/**
+ * List top-level comments (threads) on a board
+ */
+export async function listComments(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.dbUserId;
+    const { resolved, elementId } = req.query;
+
+    const access = await getBoardRole(id, userId);
+
+    if (!access) {
+      res.status(404).json({ error: 'Board not found' });
+      return;
+    }
+
+    if (!access.isPublic && !access.role) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const { page, limit } = parsePagination(req.query);
+
+    const where: Prisma.CommentWhereInput = {
+      boardId: id,
+      parentId: null,
+      ...(resolved === 'true' && { resolved: true }),
+      ...(resolved === 'false' && { resolved: false }),
+      ...(typeof elementId === 'string' && elementId && { elementId })
+    };
+
+    const [comments, total] = await Promise.all([
+      prisma.comment.findMany({
+        where,
+        include: commentInclude,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.comment.count({ where })
+    ]);
+
+    res.json({
+      comments,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    });
+  } catch (error) {
+    console.error('Error listing comments:', error);
+    res.status(500).json({ error: 'Failed to fetch comments' });
+  }
+}
+
+/**
+ * Create a comment thread pinned to a board position or element
+ */
+export async function createComment(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.dbUserId;
+    const { content, positionX, positionY, elementId } = req.body;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    if (!content || typeof content !== 'string' || !content.trim()) {
+      res.status(400).json({ error: 'Comment content is required' });
+      return;
+    }
+
+    const access = await getBoardRole(id, userId);
+
+    if (!access) {
+      res.status(404).json({ error: 'Board not found' });
+      return;
+    }
+
+    // Any member (including viewers) may comment
+    if (!access.role) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const anchor = parseElementId(elementId);
+    if (anchor && !await boardHasElement(id, anchor)) {
+      res.status(400).json({ error: 'Element not found on this board' });
+      return;
+    }
+
+    const comment = await prisma.comment.create({
+      data: {
+        boardId: id,
+        userId,
+        content: content.trim(),
+        elementId: anchor ?? null,
+        positionX: parsePosition(positionX) ?? null,
+        positionY: parsePosition(positionY) ?? null
+      }
+    });
+
+    await recordMentions(
+      comment.id,
+      await resolveMentions(comment.content, access.memberUserIds, userId)
+    );
+
+    const createdComment = await prisma.comment.findUnique({
+      where: { id: comment.id },
+      include: commentInclude
+    });
+
+    emitToBoard(id, 'comment-created', { comment: createdComment });
+
+    res.status(201).json(createdComment);
+  } catch (error) {
+    console.error('Error creating comment:', error);
+    res.status(500).json({ error: 'Failed to create comment' });
+  }
+}
+
+/**
+ * Edit a comment (author only)
+ */
+export async function updateComment(req: Request, res: Response): Promise<void> {
+  try {
+    const { id, commentId } = req.params;
+    const userId = req.user?.dbUserId;
+    const { content, positionX, positionY, elementId } = req.body;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    if (content !== undefined && (typeof content !== 'string' || !content.trim())) {
+      res.status(400).json({ error: 'Comment content cannot be empty' });
+      return;
+    }
+
+    const access = await getBoardRole(id, userId);
+
+    if (!access) {
+      res.status(404).json({ error: 'Board not found' });
+      return;
+    }
+
+    // Members removed from the board can no longer change its comments
+    if (!access.role) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const comment = await prisma.comment.findUnique({
+      where: { id: commentId }
+    });
+
+    if (!comment || comment.boardId !== id) {
+      res.status(404).json({ error: 'Comment not found' });
+      return;
+    }
+
+    if (comment.userId !== userId) {
+      res.status(403).json({ error: 'Only the author can edit this comment' });
+      return;
+    }
+
+    // Replies follow their thread, so only root comments carry an anchor
+    const isRoot = comment.parentId === null;
+    const x = isRoot ? parsePosition(positionX) : undefined;
+    const y = isRoot ? parsePosition(positionY) : undefined;
+    const anchor = isRoot ? parseElementId(elementId) : undefined;
+
+    if (anchor && anchor !== comment.elementId && !await boardHasElement(id, anchor)) {
+      res.status(400).json({ error: 'Element not found on this board' });
+      return;
+    }
+
+    await prisma.comment.update({
+      where: { id: commentId },
+      data: {
+        ...(content !== undefined && { content: content.trim() }),
+        ...(x !== undefined && { positionX: x }),
+        ...(y !== undefined && { positionY: y }),
+        ...(anchor !== undefined && { elementId: anchor })
+      }
+    });
+
+    // Newly added mentions notify; existing ones are left untouched
+    if (content !== undefined) {
+      await recordMentions(
+        commentId,
+        await resolveMentions(content, access.memberUserIds, userId)
+      );
+    }
+
+    const updatedComment = await prisma.comment.findUnique({
+      where: { id: commentId },
+      include: commentInclude
+    });
+
+    emitToBoard(id, 'comment-updated', { comment: updatedComment });
+
+    res.json(updatedComment);
+  } catch (error) {
+    console.error('Error updating comment:', error);
+    res.status(500).json({ error: 'Failed to update comment' });
+  }
+}
+
+/**
+ * Resolve or reopen a comment thread (author, owner or editor)
+ */
+async function setCommentResolved(req: Request, res: Response, resolved: boolean): Promise<void> {
+  const { id, commentId } = req.params;
+  const userId = req.user?.dbUserId;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+
+  const access = await getBoardRole(id, userId);
+
+  if (!access) {
+    res.status(404).json({ error: 'Board not found' });
+    return;
+  }
+
+  if (!access.role) {
+    res.status(403).json({ error: 'Access denied' });
+    return;
+  }
+
+  const comment = await prisma.comment.findUnique({
+    where: { id: commentId }
+  });
+
+  if (!comment || comment.boardId !== id) {
+    res.status(404).json({ error: 'Comment not found' });
+    return;
+  }
+
+  if (comment.parentId) {
+    res.status(400).json({ error: 'Only top-level comments can be resolved' });
+    return;
+  }
+
+  const canModerate = access.role === 'owner' || access.role === 'editor';
+
+  if (comment.userId !== userId && !canModerate) {
+    res.status(403).json({ error: 'Access denied' });
+    return;
+  }
+
+  const updatedComment = await prisma.comment.update({
+    where: { id: commentId },
+    data: { resolved },
+    include: commentInclude
+  });
+
+  emitToBoard(id, 'comment-resolved', { comment: updatedComment, resolved });
+
+  res.json(updatedComment);
+}
+
+/**
+ * Mark a comment thread as resolved
+ */
+export async function resolveComment(req: Request, res: Response): Promise<void> {
+  try {
+    await setCommentResolved(req, res, true);
+  } catch (error) {
+    console.error('Error resolving comment:', error);
+    res.status(500).json({ error: 'Failed to resolve comment' });
+  }
+}
+
+/**
+ * Reopen a resolved comment thread
+ */
+export async function reopenComment(req: Request, res: Response): Promise<void> {
+  try {
+    await setCommentResolved(req, res, false);
+  } catch (error) {
+    console.error('Error reopening comment:', error);
+    res.status(500).json({ error: 'Failed to reopen comment' });
+  }
+}
+
+/**
+ * Delete a comment (author or board owner); deleting a thread removes its replies
+ */
+export async function deleteComment(req: Request, res: Response): Promise<void> {
+  try {
+    const { id, commentId } = req.params;
+    const userId = req.user?.dbUserId;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const access = await getBoardRole(id, userId);
+
+    if (!access) {
+      res.status(404).json({ error: 'Board not found' });
+      return;
+    }
+
+    if (!access.role) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const comment = await prisma.comment.findUnique({
+      where: { id: commentId }
+    });
+
+    if (!comment || comment.boardId !== id) {
+      res.status(404).json({ error: 'Comment not found' });
+      return;
+    }
+
+    if (comment.userId !== userId && access.role !== 'owner') {
+      res.status(403).json({ error: 'Only the author or board owner can delete this comment' });
+      return;
+    }
+
+    await prisma.comment.delete({
+      where: { id: commentId }
+    });
+
+    emitToBoard(id, 'comment-deleted', { commentId, parentId: comment.parentId });
+
+    res.json({ message: 'Comment deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting comment:', error);
+    res.status(500).json({ error: 'Failed to delete comment' });
+  }
+}
+
+/**
+ * List replies in a comment thread
+ */
+export async function listReplies(req: Request, res: Response): Promise<void> {
+  try {
+    const { id, commentId } = req.params;
+    const userId = req.user?.dbUserId;
+
+    const access = await getBoardRole(id, userId);
+
+    if (!access) {
+      res.status(404).json({ error: 'Board not found' });
+      return;
+    }
+
+    if (!access.isPublic && !access.role) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const comment = await prisma.comment.findUnique({
+      where: { id: commentId }
+    });
+
+    if (!comment || comment.boardId !== id) {
+      res.status(404).json({ error: 'Comment not found' });
+      return;
+    }
+
+    const replies = await prisma.comment.findMany({
+      where: { parentId: comment.parentId ?? comment.id },
+      include: commentInclude,
+      orderBy: { createdAt: 'asc' }
+    });
+
+    res.json(replies);
+  } catch (error) {
+    console.error('Error listing replies:', error);
+    res.status(500).json({ error: 'Failed to fetch replies' });
+  }
+}
+
+/**
+ * Reply to a comment thread
+ */
+export async function createReply(req: Request, res: Response): Promise<void> {
+  try {
+    const { id, commentId } = req.params;
+    const userId = req.user?.dbUserId;
+    const { content } = req.body;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    if (!content || typeof content !== 'string' || !content.trim()) {
+      res.status(400).json({ error: 'Reply content is required' });
+      return;
+    }
+
+    const access = await getBoardRole(id, userId);
+
+    if (!access) {
+      res.status(404).json({ error: 'Board not found' });
+      return;
+    }
+
+    if (!access.role) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const parent = await prisma.comment.findUnique({
+      where: { id: commentId }
+    });
+
+    if (!parent || parent.boardId !== id) {
+      res.status(404).json({ error: 'Comment not found' });
+      return;
+    }
+
+    // Threads are one level deep: replying to a reply joins the root thread
+    const reply = await prisma.comment.create({
+      data: {
+        boardId: id,
+        userId,
+        parentId: parent.parentId ?? parent.id,
+        content: content.trim()
+      }
+    });
+
+    await recordMentions(
+      reply.id,
+      await resolveMentions(reply.content, access.memberUserIds, userId)
+    );
+
+    const createdReply = await prisma.comment.findUnique({
+      where: { id: reply.id },
+      include: commentInclude
+    });
+
+    emitToBoard(id, 'comment-created', { comment: createdReply });
+
+    res.status(201).json(createdReply);
+  } catch (error) {
+    console.error('Error creating reply:', error);
+    res.status(500).json({ error: 'Failed to create reply' });
+  }
+}
+
+/**
+ * Add an emoji reaction to a comment
+ */
+export async function addReaction(req: Request, res: Response): Promise<void> {
+  try {
+    const { id, commentId } = req.params;
+    const userId = req.user?.dbUserId;
+    const { emoji } = req.body;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    if (!emoji || typeof emoji !== 'string' || emoji.length > MAX_EMOJI_LENGTH) {
+      res.status(400).json({ error: 'A valid emoji is required' });
+      return;
+    }
+
+    const access = await getBoardRole(id, userId);
+
+    if (!access) {
+      res.status(404).json({ error: 'Board not found' });
+      return;
+    }
+
+    if (!access.role) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const comment = await prisma.comment.findUnique({
+      where: { id: commentId }
+    });
+
+    if (!comment || comment.boardId !== id) {
+      res.status(404).json({ error: 'Comment not found' });
+      return;
+    }
+
+    await prisma.commentReaction.upsert({
+      where: {
+        commentId_userId_emoji: { commentId, userId, emoji }
+      },
+      create: { commentId, userId, emoji },
+      update: {}
+    });
+
+    const reactions = await prisma.commentReaction.findMany({
+      where: { commentId },
+      select: { emoji: true, userId: true }
+    });
+
+    await emitCommentUpdated(id, commentId);
+
+    res.status(201).json(reactions);
+  } catch (error) {
+    console.error('Error adding reaction:', error);
+    res.status(500).json({ error: 'Failed to add reaction' });
+  }
+}
+
+/**
+ * Remove the caller's emoji reaction from a comment
+ */
+export async function removeReaction(req: Request, res: Response): Promise<void> {
+  try {
+    const { id, commentId, emoji } = req.params;
+    const userId = req.user?.dbUserId;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const access = await getBoardRole(id, userId);
+
+    if (!access) {
+      res.status(404).json({ error: 'Board not found' });
+      return;
+    }
+
+    if (!access.role) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const comment = await prisma.comment.findUnique({
+      where: { id: commentId }
+    });
+
+    if (!comment || comment.boardId !== id) {
+      res.status(404).json({ error: 'Comment not found' });
+      return;
+    }
+
+    await prisma.commentReaction.deleteMany({
+      where: { commentId, userId, emoji }
+    });
+
+    const reactions = await prisma.commentReaction.findMany({
+      where: { commentId },
+      select: { emoji: true, userId: true }
+    });
+
+    await emitCommentUpdated(id, commentId);
+
+    res.json(reactions);
+  } catch (error) {
+    console.error('Error removing reaction:', error);
+    res.status(500).json({ error: 'Failed to remove reaction' });
+  }
+}
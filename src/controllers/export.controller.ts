@@ -0,0 +1,326 @@
+import { Request, Response } from 'express';
+import { Asset } from '@prisma/client';
+import { prisma } from '../config/database';
+import { ProjectData } from '../types';
+import { migrateProjectData } from '../utils/projectMigrations';
+import { createImageResolver, loadEmbeddedAssets } from '../utils/boardImages';
+import { withReadableAssetUrls } from '../utils/assetUrls';
+import { findExportPage, getExportPages, renderPageToSvg } from '../utils/svgRenderer';
+import {
+  MIN_EXPORT_SCALE,
+  MAX_EXPORT_SCALE,
+  RasterPage,
+  buildPdf,
+  fitScaleToDocumentPixelLimit,
+  isWithinDocumentPixelLimit,
+  isWithinPixelLimit,
+  renderSvgToPng
+} from '../utils/rasterExport';
+import { buildBoardArchive, ARCHIVE_EXTENSION, ArchiveAsset } from '../utils/boardArchive';
+import { decodeBoardState } from '../utils/projectState';
+import { readFile } from '../storage/assetStorage';
+import { readBoardProjectData } from '../websocket/boardDocuments';
+
+interface ExportSource {
+  title: string;
+  isPublic: boolean;
+  projectData: ProjectData;
+  assets: Asset[];
+}
+
+/**
+ * Load a board the current user may view, with its project data and assets.
+ * Sends the error response and returns null when the board can't be exported.
+ */
+async function loadExportSource(req: Request, res: Response, boardId: string): Promise<ExportSource | null> {
+  const userId = req.user?.dbUserId;
+
+  const board = await prisma.board.findUnique({
+    where: { id: boardId },
+    include: {
+      members: true,
+      assets: true
+    }
+  });
+
+  if (!board) {
+    res.status(404).json({ error: 'Board not found' });
+    return null;
+  }
+
+  const hasAccess =
+    board.isPublic ||
+    board.ownerId === userId ||
+    (userId && board.members.some(m => m.userId === userId));
+
+  if (!hasAccess) {
+    res.status(403).json({ error: 'Access denied' });
+    return null;
+  }
+
+  const { projectData } = migrateProjectData(readBoardProjectData(board.id, board.yDocState));
+
+  return {
+    title: board.title,
+    isPublic: board.isPublic,
+    projectData,
+    assets: board.assets
+  };
+}
+
+/**
+ * Parse the ?scale= query parameter; returns null if it is out of range
+ */
+function parseScale(value: unknown, defaultScale: number): number | null {
+  if (value === undefined) {
+    return defaultScale;
+  }
+
+  const scale = Number(value);
+  return Number.isFinite(scale) && scale >= MIN_EXPORT_SCALE && scale <= MAX_EXPORT_SCALE ? scale : null;
+}
+
+function exportFileName(title: string, extension: string): string {
+  const baseName = title.replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '') || 'board';
+  return `${baseName}.${extension}`;
+}
+
+/**
+ * Export one page of a board as a standalone SVG
+ */
+export async function exportBoardSvg(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+    const { page, embed } = req.query;
+
+    const source = await loadExportSource(req, res, id);
+    if (!source) {
+      return;
+    }
+
+    const exportPage = findExportPage(
+      getExportPages(source.projectData),
+      typeof page === 'string' ? page : undefined
+    );
+
+    if (!exportPage) {
+      res.status(404).json({ error: 'Page not found' });
+      return;
+    }
+
+    const embedded = embed === 'true'
+      ? await loadEmbeddedAssets([exportPage], source.assets)
+      : new Map<string, string>();
+
+    // Linked images of private boards use signed URLs, which expire; embed for a lasting file
+    const linkedAssets = await withReadableAssetUrls(source.assets, source.isPublic);
+    const svg = renderPageToSvg(exportPage, {
+      resolveImage: createImageResolver(linkedAssets, embedded)
+    });
+
+    res.setHeader('Content-Type', 'image/svg+xml; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${exportFileName(source.title, 'svg')}"`);
+    res.send(svg);
+  } catch (error) {
+    console.error('Error exporting board to SVG:', error);
+    res.status(500).json({ error: 'Failed to export board' });
+  }
+}
+
+/**
+ * Export one page of a board as a PNG (?scale= multiplies the canvas size)
+ */
+export async function exportProjectPng(req: Request, res: Response): Promise<void> {
+  try {
+    const { boardId } = req.params;
+    const { page } = req.query;
+
+    const scale = parseScale(req.query.scale, 1);
+    if (scale === null) {
+      res.status(400).json({ error: `Scale must be between ${MIN_EXPORT_SCALE} and ${MAX_EXPORT_SCALE}` });
+      return;
+    }
+
+    const source = await loadExportSource(req, res, boardId);
+    if (!source) {
+      return;
+    }
+
+    const exportPage = findExportPage(
+      getExportPages(source.projectData),
+      typeof page === 'string' ? page : undefined
+    );
+
+    if (!exportPage) {
+      res.status(404).json({ error: 'Page not found' });
+      return;
+    }
+
+    if (!isWithinPixelLimit(exportPage.width, exportPage.height, scale)) {
+      res.status(400).json({ error: 'Requested image is too large; use a smaller scale' });
+      return;
+    }
+
+    const embedded = await loadEmbeddedAssets([exportPage], source.assets);
+    const svg = renderPageToSvg(exportPage, {
+      resolveImage: createImageResolver(source.assets, embedded, false)
+    });
+    const png = await renderSvgToPng(svg, scale);
+
+    res.setHeader('Content-Type', 'image/png');
+    res.setHeader('Content-Disposition', `attachment; filename="${exportFileName(source.title, 'png')}"`);
+    res.send(Buffer.from(png));
+  } catch (error) {
+    console.error('Error exporting project to PNG:', error);
+    res.status(500).json({ error: 'Failed to export project' });
+  }
+}
+
+/**
+ * Export every page of a board as one PDF (?scale= sets the raster resolution, default 2;
+ * the default is lowered for documents too large to render at it)
+ */
+export async function exportProjectPdf(req: Request, res: Response): Promise<void> {
+  try {
+    const { boardId } = req.params;
+
+    const requestedScale = parseScale(req.query.scale, 2);
+    if (requestedScale === null) {
+      res.status(400).json({ error: `Scale must be between ${MIN_EXPORT_SCALE} and ${MAX_EXPORT_SCALE}` });
+      return;
+    }
+
+    const source = await loadExportSource(req, res, boardId);
+    if (!source) {
+      return;
+    }
+
+    const pages = getExportPages(source.projectData);
+    const scale = req.query.scale === undefined
+      ? fitScaleToDocumentPixelLimit(pages, requestedScale)
+      : isWithinDocumentPixelLimit(pages, requestedScale) ? requestedScale : null;
+    if (scale === null) {
+      res.status(400).json({ error: 'Pages are too large at this scale; use a smaller scale' });
+      return;
+    }
+
+    const embedded = await loadEmbeddedAssets(pages, source.assets);
+    const resolveImage = createImageResolver(source.assets, embedded, false);
+
+    // Pages are rendered one at a time to bound memory use
+    const rasterPages: RasterPage[] = [];
+    for (const page of pages) {
+      rasterPages.push({
+        png: await renderSvgToPng(renderPageToSvg(page, { resolveImage }), scale),
+        width: page.width,
+        height: page.height
+      });
+    }
+
+    const pdf = await buildPdf(rasterPages, source.title);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${exportFileName(source.title, 'pdf')}"`);
+    res.send(Buffer.from(pdf));
+  } catch (error) {
+    console.error('Error exporting project to PDF:', error);
+    res.status(500).json({ error: 'Failed to export project' });
+  }
+}
+
+/**
+ * Export a board with its versions, comments and asset files as a portable .sowntra archive
+ */
+export async function exportBoardArchive(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.dbUserId;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const board = await prisma.board.findUnique({
+      where: { id },
+      include: {
+        members: true,
+        assets: { orderBy: { uploadedAt: 'asc' } },
+        versions: { orderBy: { createdAt: 'asc' } },
+        comments: {
+          orderBy: { createdAt: 'asc' },
+          include: {
+            user: { select: { email: true, name: true } }
+          }
+        }
+      }
+    });
+
+    if (!board) {
+      res.status(404).json({ error: 'Board not found' });
+      return;
+    }
+
+    // Archives include version history and comments, so public viewers can't export them
+    const hasAccess =
+      board.ownerId === userId ||
+      board.members.some(m => m.userId === userId);
+
+    if (!hasAccess) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    // Assets are downloaded one at a time to bound memory use
+    const assets: ArchiveAsset[] = [];
+    for (const asset of board.assets) {
+      try {
+        assets.push({
+          id: asset.id,
+          fileName: asset.fileName,
+          fileType: asset.fileType,
+          url: asset.url,
+          uploadedAt: asset.uploadedAt.toISOString(),
+          contents: await readFile(asset.storageRef)
+        });
+      } catch (error) {
+        console.warn(`Failed to read asset ${asset.id} for archive:`, error);
+      }
+    }
+
+    const archive = await buildBoardArchive({
+      board: {
+        title: board.title,
+        description: board.description,
+        createdAt: board.createdAt.toISOString()
+      },
+      projectData: migrateProjectData(readBoardProjectData(board.id, board.yDocState)).projectData,
+      versions: board.versions.map(version => ({
+        id: version.id,
+        versionName: version.versionName,
+        kind: version.kind === 'auto' ? 'auto' : 'named',
+        createdAt: version.createdAt.toISOString(),
+        projectData: decodeBoardState(version.yDocState)
+      })),
+      comments: board.comments.map(comment => ({
+        id: comment.id,
+        parentId: comment.parentId,
+        elementId: comment.elementId,
+        content: comment.content,
+        positionX: comment.positionX,
+        positionY: comment.positionY,
+        resolved: comment.resolved,
+        createdAt: comment.createdAt.toISOString(),
+        author: comment.user
+      })),
+      assets
+    });
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${exportFileName(board.title, ARCHIVE_EXTENSION)}"`);
+    res.send(archive);
+  } catch (error) {
+    console.error('Error exporting board archive:', error);
+    res.status(500).json({ error: 'Failed to export board' });
+  }
+}
@@ -1,5 +1,126 @@
 import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
 import { prisma } from '../config/database';
+import { Element, ProjectData } from '../types';
+import { encodeProjectState, decodeBoardState, createEmptyProjectData } from '../utils/projectState';
+import { migrateProjectData, upgradeIncomingProjectData } from '../utils/projectMigrations';
+import { getProjectDataErrors, validateFileType } from '../utils/validators';
+import { detectFileType, normalizeMimeType } from '../utils/fileTypes';
+import { getImageInfo } from '../utils/imageInfo';
+import { ImportedProject, importSvg } from '../utils/svgImport';
+import { readBoardArchive, rewriteAssetReferences, BoardArchive } from '../utils/boardArchive';
+import {
+  PreparedAssetFile,
+  StoredAssetFile,
+  createAssetOnFile,
+  findSharedAssetFile,
+  hashFileContents,
+  prepareAssetFile,
+  releaseAssetFiles,
+  storeSharedAssetFile
+} from '../utils/assetFiles';
+import { createVersionThumbnail, scheduleBoardThumbnail } from '../utils/thumbnails';
+import { scheduleAutoVersion } from '../utils/autoVersions';
+import { findExceededQuota, quotaExceededError } from '../utils/storageQuotas';
+import { createUrlSigner, withReadableAssetUrls, withReadableProjectUrls, withReadableThumbnails } from '../utils/assetUrls';
+import { readBoardProjectData, readBoardState, writeBoardProjectData } from '../websocket/boardDocuments';
+
+/**
+ * Upgrade client project data to the current schema and validate it.
+ * Responds with 400 and field-level errors (returning null) if it is malformed.
+ */
+function prepareProjectData(res: Response, projectData: unknown): ProjectData | null {
+  const upgraded = upgradeIncomingProjectData(projectData);
+
+  const errors = getProjectDataErrors(upgraded);
+  if (errors.length > 0) {
+    res.status(400).json({ error: 'Invalid project data', details: errors });
+    return null;
+  }
+
+  return upgraded;
+}
+
+/**
+ * Current project data of a board, upgraded to the current schema version.
+ * Upgraded documents are written back so collaborators see the same schema.
+ */
+async function loadProjectDataForBoard(boardId: string, storedState: Uint8Array | null): Promise<ProjectData> {
+  const { projectData, fromVersion, migrated } = migrateProjectData(readBoardProjectData(boardId, storedState));
+
+  if (migrated) {
+    try {
+      await writeBoardProjectData(boardId, projectData, { preserveLastModified: true });
+    } catch (error) {
+      console.error(`Error storing board ${boardId} upgraded from schema version ${fromVersion}:`, error);
+    }
+  }
+
+  return projectData;
+}
+
+/**
+ * An asset of a new project, on files stored by storeImportedFile
+ */
+interface NewProjectAsset {
+  id: string;
+  storedFile: StoredAssetFile;
+  fileName: string;
+  uploadedAt?: Date;
+}
+
+interface NewProjectOptions {
+  id?: string;
+  title?: string;
+  description?: string;
+  assets?: NewProjectAsset[];
+}
+
+/**
+ * Create a private project (board) owned by the user, with the given content and assets.
+ * The assets are uploaded by the user; if one can't be created, the project is deleted again.
+ */
+async function createUserProject(userId: string, projectData: ProjectData, options: NewProjectOptions = {}) {
+  const project = await prisma.board.create({
+    data: {
+      id: options.id,
+      title: options.title || `Untitled Project ${new Date().toLocaleDateString()}`,
+      description: options.description || '',
+      ownerId: userId,
+      isPublic: false,
+      yDocState: encodeProjectState(projectData),
+      lastModified: new Date()
+    },
+    select: {
+      id: true,
+      title: true,
+      lastModified: true
+    }
+  });
+
+  try {
+    for (const asset of options.assets || []) {
+      const created = await createAssetOnFile(asset.storedFile, {
+        id: asset.id,
+        boardId: project.id,
+        fileName: asset.fileName,
+        uploadedById: userId,
+        uploadedAt: asset.uploadedAt
+      });
+      if (!created) {
+        throw new Error(`Stored files of ${asset.storedFile.contentHash} were released while the asset was created`);
+      }
+    }
+  } catch (error) {
+    await prisma.board.delete({ where: { id: project.id } }).catch(deleteError => {
+      console.warn('Failed to delete partially imported board:', deleteError);
+    });
+    throw error;
+  }
+
+  scheduleBoardThumbnail(project.id, 0);
+  return project;
+}
 
 /**
  * Save design project data (user projects without boardId)
@@ -20,6 +141,11 @@ export async function saveProjectData(req: Request, res: Response): Promise<void
       return;
     }
 
+    const validProjectData = prepareProjectData(res, projectData);
+    if (!validProjectData) {
+      return;
+    }
+
     // If boardId is provided, use board-based saving
     if (boardId) {
       const board = await prisma.board.findUnique({
@@ -41,12 +167,14 @@ export async function saveProjectData(req: Request, res: Response): Promise<void
         return;
       }
 
+      await writeBoardProjectData(boardId, validProjectData);
+      scheduleBoardThumbnail(boardId, 0);
+      // Every explicit save is kept as an automatic version
+      scheduleAutoVersion(boardId, 0);
+
       const updatedBoard = await prisma.board.update({
         where: { id: boardId },
-        data: {
-          yDocState: Buffer.from(JSON.stringify(projectData)),
-          lastModified: new Date()
-        },
+        data: { lastModified: new Date() },
         select: {
           id: true,
           title: true,
@@ -60,20 +188,9 @@ export async function saveProjectData(req: Request, res: Response): Promise<void
       });
     } else {
       // User project saving (without boardId)
-      const project = await prisma.board.create({
-        data: {
-          title: projectData.title || `Untitled Project ${new Date().toLocaleDateString()}`,
-          description: projectData.description || '',
-          ownerId: userId,
-          isPublic: false,
-          yDocState: Buffer.from(JSON.stringify(projectData)),
-          lastModified: new Date()
-        },
-        select: {
-          id: true,
-          title: true,
-          lastModified: true
-        }
+      const project = await createUserProject(userId, validProjectData, {
+        title: projectData.title,
+        description: projectData.description
       });
 
       res.json({
@@ -87,6 +204,393 @@ export async function saveProjectData(req: Request, res: Response): Promise<void
   }
 }
 
+/**
+ * Check and process an imported file like an upload. Returns null for files whose
+ * contents are not of their declared type, or SVGs that can't be sanitized; raster
+ * images that fail to process are stored as they are.
+ */
+async function prepareImportedFile(contents: Buffer, declaredType: string): Promise<PreparedAssetFile | null> {
+  const fileType = detectFileType(contents);
+  if (!fileType || !validateFileType(fileType) || fileType !== normalizeMimeType(declaredType)) {
+    return null;
+  }
+
+  try {
+    return await prepareAssetFile(contents, fileType);
+  } catch (error) {
+    console.warn('Failed to process imported file:', error);
+    return fileType === 'image/svg+xml'
+      ? null
+      : { contents, mimeType: fileType, width: null, height: null, derivatives: [] };
+  }
+}
+
+/**
+ * Imported content, identified by its hash like an upload (see uploadAsset): either
+ * already stored, or prepared to be stored
+ */
+type ImportedFile = { contentHash: string; fileSize: number } & (
+  | { storedFile: StoredAssetFile }
+  | { preparedFile: PreparedAssetFile }
+);
+
+/**
+ * Look up imported content among the stored files, or prepare it to be stored.
+ * Returns null for new content that prepareImportedFile rejects.
+ */
+async function resolveImportedFile(contents: Buffer, declaredType: string): Promise<ImportedFile | null> {
+  const contentHash = hashFileContents(contents);
+
+  const storedFile = await findSharedAssetFile(contentHash);
+  if (storedFile) {
+    return { contentHash, fileSize: storedFile.fileSize, storedFile };
+  }
+
+  const preparedFile = await prepareImportedFile(contents, declaredType);
+  return preparedFile && { contentHash, fileSize: preparedFile.contents.length, preparedFile };
+}
+
+/**
+ * Stored size of imported files, counted against the importing user's and the new board's quota;
+ * content imported more than once counts once
+ */
+function getImportSize(files: { file: ImportedFile }[]): number {
+  const sizes = new Map(files.map(({ file }) => [file.contentHash, file.fileSize]));
+  return Array.from(sizes.values()).reduce((total, size) => total + size, 0);
+}
+
+/**
+ * Files of imported content, stored once per import. `storedFiles` collects every file
+ * the import uses, so they can be released if it fails.
+ */
+async function storeImportedFile(file: ImportedFile, storedFiles: Map<string, StoredAssetFile>): Promise<StoredAssetFile> {
+  let storedFile = storedFiles.get(file.contentHash);
+  if (!storedFile) {
+    storedFile = 'storedFile' in file
+      ? file.storedFile
+      : await storeSharedAssetFile(file.contentHash, file.preparedFile, false);
+    storedFiles.set(file.contentHash, storedFile);
+  }
+  return storedFile;
+}
+
+/**
+ * Release the files of a failed import, once its assets are gone
+ */
+async function releaseImportedFiles(storedFiles: Map<string, StoredAssetFile>): Promise<void> {
+  for (const storedFile of storedFiles.values()) {
+    await releaseAssetFiles(storedFile).catch(error => {
+      console.warn('Failed to release imported files:', error);
+    });
+  }
+}
+
+const IMPORTABLE_RASTER_TYPES = ['image/png', 'image/jpeg'];
+
+/**
+ * A PNG or JPEG becomes a single image element filling a canvas of the image's size
+ */
+function importRasterImage(contents: Buffer, mimeType: string): ImportedProject {
+  const info = getImageInfo(contents);
+  if (!info || info.mimeType !== mimeType || info.width <= 0 || info.height <= 0) {
+    throw new Error('Unreadable image');
+  }
+
+  const element: Element = {
+    id: uuidv4(),
+    type: 'image',
+    x: 0,
+    y: 0,
+    width: info.width,
+    height: info.height,
+    properties: { src: 'pending', objectFit: 'contain' }
+  };
+
+  return {
+    title: null,
+    projectData: {
+      ...createEmptyProjectData(),
+      pages: [{ id: uuidv4(), name: 'Page 1', elements: [element] }],
+      settings: { canvasWidth: info.width, canvasHeight: info.height }
+    },
+    images: [{ elementId: element.id, contents, mimeType }],
+    warnings: []
+  };
+}
+
+/**
+ * Create a new project from an uploaded SVG, PNG or JPEG file
+ */
+export async function importProject(req: Request, res: Response): Promise<void> {
+  const storedFiles = new Map<string, StoredAssetFile>();
+
+  try {
+    const userId = req.user?.dbUserId;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    if (!req.file) {
+      res.status(400).json({ error: 'No file uploaded' });
+      return;
+    }
+
+    const file = req.file;
+    const isSvg = file.mimetype === 'image/svg+xml' || /\.svg$/i.test(file.originalname);
+
+    if (!isSvg && !IMPORTABLE_RASTER_TYPES.includes(file.mimetype)) {
+      res.status(415).json({ error: 'Only SVG, PNG and JPEG files can be imported' });
+      return;
+    }
+
+    let imported: ImportedProject;
+    try {
+      imported = isSvg
+        ? importSvg(file.buffer.toString('utf8'))
+        : importRasterImage(file.buffer, file.mimetype);
+    } catch (error) {
+      res.status(400).json({ error: `Could not read ${isSvg ? 'SVG' : 'image'} file` });
+      return;
+    }
+
+    const errors = getProjectDataErrors(imported.projectData);
+    if (errors.length > 0) {
+      res.status(400).json({ error: 'Imported file produced invalid project data', details: errors });
+      return;
+    }
+
+    // Images are stored before the project exists, so their URLs can go into its first state
+    const boardId = uuidv4();
+    const elements = new Map<string, Element>();
+    for (const page of imported.projectData.pages || []) {
+      page.elements.forEach(element => elements.set(element.id, element));
+    }
+
+    const baseName = file.originalname.replace(/\.[^.]*$/, '') || 'image';
+    const assets: NewProjectAsset[] = [];
+
+    const importedImages: { image: ImportedProject['images'][number]; file: ImportedFile }[] = [];
+    for (const image of imported.images) {
+      const importedFile = await resolveImportedFile(image.contents, image.mimeType);
+      if (!importedFile) {
+        imported.projectData.pages.forEach(page => {
+          page.elements = page.elements.filter(element => element.id !== image.elementId);
+        });
+        const warning = 'Embedded images that could not be read were skipped';
+        if (!imported.warnings.includes(warning)) {
+          imported.warnings.push(warning);
+        }
+        continue;
+      }
+      importedImages.push({ image, file: importedFile });
+    }
+
+    const exceededQuota = await findExceededQuota(userId, boardId, getImportSize(importedImages));
+    if (exceededQuota) {
+      res.status(413).json(quotaExceededError(exceededQuota));
+      return;
+    }
+
+    for (const { image, file: importedFile } of importedImages) {
+      const assetId = uuidv4();
+      const fileName = isSvg
+        ? `${baseName}-${assets.length + 1}.${image.mimeType.split('/')[1]}`
+        : file.originalname;
+
+      const storedFile = await storeImportedFile(importedFile, storedFiles);
+      assets.push({ id: assetId, storedFile, fileName });
+
+      const element = elements.get(image.elementId);
+      if (element) {
+        element.properties = { ...element.properties, src: storedFile.url, assetId };
+      }
+    }
+
+    const project = await createUserProject(userId, imported.projectData, {
+      id: boardId,
+      title: req.body?.title || imported.title || baseName,
+      description: req.body?.description,
+      assets
+    });
+
+    res.status(201).json({
+      message: 'Project imported successfully',
+      project,
+      warnings: imported.warnings
+    });
+  } catch (error) {
+    console.error('Error importing project:', error);
+    await releaseImportedFiles(storedFiles);
+    res.status(500).json({ error: 'Failed to import project' });
+  }
+}
+
+/**
+ * Create a new project from a .sowntra board archive. The board, its assets, versions
+ * and comments get new ids; asset files are re-uploaded and references to them rewritten.
+ * Comments keep their author when a user with the same email exists, otherwise they
+ * are attributed to the importing user.
+ */
+export async function importBoardArchive(req: Request, res: Response): Promise<void> {
+  const storedFiles = new Map<string, StoredAssetFile>();
+  let createdBoardId: string | null = null;
+
+  try {
+    const userId = req.user?.dbUserId;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    if (!req.file) {
+      res.status(400).json({ error: 'No file uploaded' });
+      return;
+    }
+
+    let archive: BoardArchive;
+    try {
+      archive = await readBoardArchive(req.file.buffer);
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid board archive' });
+      return;
+    }
+
+    const { projectData } = migrateProjectData(archive.projectData);
+    const errors = getProjectDataErrors(projectData);
+    if (errors.length > 0) {
+      res.status(400).json({ error: 'Archive contains invalid project data', details: errors });
+      return;
+    }
+
+    const warnings: string[] = [];
+    const versions = archive.versions.filter(version => {
+      const versionErrors = getProjectDataErrors(migrateProjectData(version.projectData).projectData);
+      if (versionErrors.length > 0) {
+        warnings.push(`Skipped version "${version.versionName || version.id}" with invalid project data`);
+        return false;
+      }
+      return true;
+    });
+
+    // Re-upload asset files under the new board
+    const boardId = uuidv4();
+    const assetIds = new Map<string, string>();
+    const assetUrls = new Map<string, string>();
+    const assets: NewProjectAsset[] = [];
+
+    const importedAssets: { asset: BoardArchive['assets'][number]; file: ImportedFile }[] = [];
+    for (const asset of archive.assets) {
+      // Derivatives are not archived; they are generated again for content that is not stored yet
+      const importedFile = await resolveImportedFile(asset.contents, asset.fileType);
+      if (!importedFile) {
+        warnings.push(`Skipped asset "${asset.fileName}": its contents are not a supported ${asset.fileType} file`);
+        continue;
+      }
+      importedAssets.push({ asset, file: importedFile });
+    }
+
+    const exceededQuota = await findExceededQuota(userId, boardId, getImportSize(importedAssets));
+    if (exceededQuota) {
+      res.status(413).json(quotaExceededError(exceededQuota));
+      return;
+    }
+
+    for (const { asset, file: importedFile } of importedAssets) {
+      const assetId = uuidv4();
+      const storedFile = await storeImportedFile(importedFile, storedFiles);
+
+      assetIds.set(asset.id, assetId);
+      if (asset.url) {
+        assetUrls.set(asset.url, storedFile.url);
+      }
+
+      assets.push({
+        id: assetId,
+        storedFile,
+        fileName: asset.fileName,
+        uploadedAt: new Date(asset.uploadedAt)
+      });
+    }
+
+    const project = await createUserProject(
+      userId,
+      rewriteAssetReferences(projectData, assetIds, assetUrls),
+      {
+        id: boardId,
+        title: req.body?.title || archive.board.title,
+        description: archive.board.description || undefined,
+        assets
+      }
+    );
+    createdBoardId = project.id;
+
+    await prisma.boardVersion.createMany({
+      data: versions.map(version => ({
+        boardId,
+        versionName: version.versionName,
+        kind: version.kind,
+        yDocState: encodeProjectState(rewriteAssetReferences(version.projectData, assetIds, assetUrls)),
+        createdAt: new Date(version.createdAt)
+      }))
+    });
+
+    const authors = await prisma.user.findMany({
+      where: { email: { in: Array.from(new Set(archive.comments.map(comment => comment.author.email))) } },
+      select: { id: true, email: true }
+    });
+    const authorIds = new Map(authors.map(author => [author.email, author.id]));
+
+    // Replies reference their thread's root comment, so roots are created first
+    const commentIds = new Map(archive.comments.map(comment => [comment.id, uuidv4()]));
+    const comments = archive.comments
+      .filter(comment => !comment.parentId || commentIds.has(comment.parentId))
+      .map(comment => ({
+        id: commentIds.get(comment.id) as string,
+        boardId,
+        userId: authorIds.get(comment.author.email) || userId,
+        parentId: comment.parentId ? commentIds.get(comment.parentId) as string : null,
+        elementId: comment.elementId,
+        content: comment.content,
+        positionX: comment.positionX,
+        positionY: comment.positionY,
+        resolved: comment.resolved,
+        createdAt: new Date(comment.createdAt)
+      }));
+
+    await prisma.comment.createMany({ data: comments.filter(comment => !comment.parentId) });
+    await prisma.comment.createMany({ data: comments.filter(comment => comment.parentId) });
+
+    if (comments.length < archive.comments.length) {
+      warnings.push(`Skipped ${archive.comments.length - comments.length} replies to missing comments`);
+    }
+
+    res.status(201).json({
+      message: 'Board archive imported successfully',
+      project,
+      imported: {
+        assets: assets.length,
+        versions: versions.length,
+        comments: comments.length
+      },
+      warnings
+    });
+  } catch (error) {
+    console.error('Error importing board archive:', error);
+
+    if (createdBoardId) {
+      await prisma.board.delete({ where: { id: createdBoardId } }).catch(deleteError => {
+        console.warn('Failed to delete partially imported board:', deleteError);
+      });
+    }
+
+    await releaseImportedFiles(storedFiles);
+    res.status(500).json({ error: 'Failed to import board archive' });
+  }
+}
+
 /**
  * Load design project data
  */
@@ -128,39 +632,23 @@ export async function loadProjectData(req: Request, res: Response): Promise<void
       return;
     }
 
-    let projectData = null;
-    if (board.yDocState) {
-      try {
-        // Handle Prisma Bytes type - convert Buffer to string then parse JSON
-        const yDocStateString = Buffer.isBuffer(board.yDocState) 
-          ? board.yDocState.toString('utf8')
-          : String(board.yDocState);
-        
-        if (yDocStateString && yDocStateString.trim()) {
-          projectData = JSON.parse(yDocStateString);
-        } else {
-          projectData = { elements: [], pages: [] };
-        }
-      } catch (parseError) {
-        console.error('Error parsing board project data:', parseError);
-        projectData = { elements: [], pages: [] };
-      }
-    }
+    const projectData = await loadProjectDataForBoard(board.id, board.yDocState);
+    const sign = createUrlSigner(board.isPublic);
 
     res.json({
       board: {
         id: board.id,
         title: board.title,
         description: board.description,
-        thumbnail: board.thumbnail,
+        thumbnail: board.thumbnail && await sign(board.thumbnail),
         isPublic: board.isPublic,
         owner: board.owner,
         members: board.members,
-        assets: board.assets,
+        assets: await withReadableAssetUrls(board.assets, board.isPublic),
         createdAt: board.createdAt,
         lastModified: board.lastModified
       },
-      projectData
+      projectData: await withReadableProjectUrls(projectData, board.assets, board.isPublic)
     });
   } catch (error) {
     console.error('Error loading project data:', error);
@@ -182,6 +670,16 @@ export async function autoSaveProjectData(req: Request, res: Response): Promise<
       return;
     }
 
+    if (!projectData) {
+      res.status(400).json({ error: 'Project data is required' });
+      return;
+    }
+
+    const validProjectData = prepareProjectData(res, projectData);
+    if (!validProjectData) {
+      return;
+    }
+
     const board = await prisma.board.findUnique({
       where: { id: boardId },
       include: { members: true }
@@ -201,13 +699,8 @@ export async function autoSaveProjectData(req: Request, res: Response): Promise<
       return;
     }
 
-    await prisma.board.update({
-      where: { id: boardId },
-      data: {
-        yDocState: Buffer.from(JSON.stringify(projectData)),
-        lastModified: new Date()
-      }
-    });
+    await writeBoardProjectData(boardId, validProjectData);
+    scheduleBoardThumbnail(boardId, 0);
 
     res.json({ message: 'Auto-saved successfully' });
   } catch (error) {
@@ -244,21 +737,34 @@ export async function createProjectVersion(req: Request, res: Response): Promise
       return;
     }
 
-    if (!board.yDocState) {
+    const yDocState = readBoardState(boardId, board.yDocState);
+    if (!yDocState) {
       res.status(400).json({ error: 'No project data to save as version' });
       return;
     }
 
+    // Prefer a server-rendered preview; fall back to the client's if rendering fails
+    let versionThumbnail = thumbnail || board.thumbnail;
+    try {
+      versionThumbnail = await createVersionThumbnail(boardId, yDocState);
+    } catch (error) {
+      console.error('Error generating version thumbnail:', error);
+    }
+
     const version = await prisma.boardVersion.create({
       data: {
         boardId,
         versionName: versionName || `Version ${new Date().toISOString()}`,
-        yDocState: board.yDocState,
-        thumbnail: thumbnail || board.thumbnail
+        kind: 'named',
+        yDocState,
+        thumbnail: versionThumbnail
       }
     });
 
-    res.status(201).json(version);
+    res.status(201).json({
+      ...version,
+      thumbnail: version.thumbnail && await createUrlSigner(board.isPublic)(version.thumbnail)
+    });
   } catch (error) {
     console.error('Error creating project version:', error);
     res.status(500).json({ error: 'Failed to create project version' });
@@ -292,18 +798,25 @@ export async function getProjectVersions(req: Request, res: Response): Promise<v
       return;
     }
 
+    // ?kind=named or ?kind=auto lists one kind of version
+    const { kind } = req.query;
+
     const versions = await prisma.boardVersion.findMany({
-      where: { boardId },
+      where: {
+        boardId,
+        ...((kind === 'named' || kind === 'auto') && { kind })
+      },
       orderBy: { createdAt: 'desc' },
       select: {
         id: true,
         versionName: true,
+        kind: true,
         thumbnail: true,
         createdAt: true
       }
     });
 
-    res.json(versions);
+    res.json(await withReadableThumbnails(versions, () => board.isPublic));
   } catch (error) {
     console.error('Error fetching project versions:', error);
     res.status(500).json({ error: 'Failed to fetch project versions' });
@@ -346,13 +859,11 @@ export async function restoreProjectVersion(req: Request, res: Response): Promis
       return;
     }
 
-    await prisma.board.update({
-      where: { id: boardId },
-      data: {
-        yDocState: version.yDocState,
-        lastModified: new Date()
-      }
-    });
+    // Restoring is applied as ordinary changes so live collaborators follow along
+    // Old snapshots are upgraded to the current schema before they become the board's state
+    const { projectData } = migrateProjectData(decodeBoardState(version.yDocState));
+    await writeBoardProjectData(boardId, projectData);
+    scheduleBoardThumbnail(boardId, 0);
 
     res.json({ message: 'Project restored from version successfully' });
   } catch (error) {
@@ -384,6 +895,7 @@ export async function getUserProjects(req: Request, res: Response): Promise<void
         id: true,
         title: true,
         description: true,
+        thumbnail: true,
         isPublic: true,
         createdAt: true,
         lastModified: true,
@@ -398,7 +910,7 @@ export async function getUserProjects(req: Request, res: Response): Promise<void
       orderBy: { lastModified: 'desc' }
     });
 
-    res.json({ projects });
+    res.json({ projects: await withReadableThumbnails(projects, project => project.isPublic) });
   } catch (error) {
     console.error('Error getting user projects:', error);
     res.status(500).json({ error: 'Failed to get user projects' });
@@ -433,7 +945,8 @@ export async function loadUserProject(req: Request, res: Response): Promise<void
             name: true,
             email: true
           }
-        }
+        },
+        assets: true
       }
     });
 
@@ -442,23 +955,8 @@ export async function loadUserProject(req: Request, res: Response): Promise<void
       return;
     }
 
-    let projectData = {};
-    if (project.yDocState) {
-      try {
-        // Handle Prisma Bytes type - convert Buffer to string then parse JSON
-        const yDocStateString = Buffer.isBuffer(project.yDocState) 
-          ? project.yDocState.toString('utf8')
-          : String(project.yDocState);
-        
-        if (yDocStateString && yDocStateString.trim()) {
-          projectData = JSON.parse(yDocStateString);
-        }
-      } catch (parseError) {
-        console.error('Error parsing project data:', parseError);
-        // Return empty project data if parsing fails
-        projectData = {};
-      }
-    }
+    const storedProjectData = await loadProjectDataForBoard(project.id, project.yDocState);
+    const projectData = await withReadableProjectUrls(storedProjectData, project.assets, project.isPublic);
 
     res.json({
       project: {
@@ -490,6 +988,16 @@ export async function updateUserProject(req: Request, res: Response): Promise<vo
       return;
     }
 
+    if (!projectData) {
+      res.status(400).json({ error: 'Project data is required' });
+      return;
+    }
+
+    const validProjectData = prepareProjectData(res, projectData);
+    if (!validProjectData) {
+      return;
+    }
+
     const project = await prisma.board.findFirst({
       where: {
         id: projectId,
@@ -502,12 +1010,13 @@ export async function updateUserProject(req: Request, res: Response): Promise<vo
       return;
     }
 
+    await writeBoardProjectData(projectId, validProjectData);
+    scheduleBoardThumbnail(projectId, 0);
+    scheduleAutoVersion(projectId, 0);
+
     const updatedProject = await prisma.board.update({
       where: { id: projectId },
-      data: {
-        yDocState: Buffer.from(JSON.stringify(projectData)),
-        lastModified: new Date()
-      },
+      data: { lastModified: new Date() },
       select: {
         id: true,
         title: true,
@@ -0,0 +1,427 @@
+import { Request, Response } from 'express';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { Asset, UploadSession } from '@prisma/client';
+import { prisma } from '../config/database';
+import { deleteFile, saveFileStream } from '../storage/assetStorage';
+import { withReadableAssetUrls } from '../utils/assetUrls';
+import {
+  PreparedAssetFile,
+  StoredAssetFile,
+  createAssetOnFile,
+  findSharedAssetFile,
+  getSharedFileRef,
+  hashFileContents,
+  prepareAssetFile,
+  releaseAssetFiles,
+  storeSharedAssetFile
+} from '../utils/assetFiles';
+import { detectFileType, normalizeMimeType } from '../utils/fileTypes';
+import { PROCESSABLE_IMAGE_TYPES } from '../utils/imageProcessing';
+import {
+  MAX_UPLOAD_SIZE_BYTES,
+  UPLOAD_CHUNK_SIZE_BYTES,
+  deleteUploadSession,
+  getChunkCount,
+  getChunkRef,
+  getExpectedChunkSize,
+  getUploadExpiry,
+  hashUpload,
+  readUpload,
+  readUploadHead,
+  streamUpload
+} from '../utils/uploadSessions';
+import { findExceededQuota, quotaExceededError } from '../utils/storageQuotas';
+import { validateFileType } from '../utils/validators';
+
+// Images are processed in memory (see prepareAssetFile), so they stay smaller
+const MAX_PROCESSED_FILE_SIZE_BYTES = 50 * 1024 * 1024;
+
+// Enough of the file to detect its type, SVG included
+const FILE_TYPE_SNIFF_BYTES = 4096;
+
+function isProcessedType(fileType: string): boolean {
+  return fileType === 'image/svg+xml' || PROCESSABLE_IMAGE_TYPES.includes(fileType);
+}
+
+/**
+ * Whether the user may add assets to the board (owner or editor)
+ */
+function canEditBoard(board: { ownerId: string; members: { userId: string; role: string }[] }, userId: string): boolean {
+  return board.ownerId === userId ||
+    board.members.some(m => m.userId === userId && m.role !== 'viewer');
+}
+
+/**
+ * The user's upload session named in the request; sends an error response and
+ * returns null if there is none
+ */
+async function findUploadSession(req: Request, res: Response): Promise<UploadSession | null> {
+  const { boardId, uploadId } = req.params;
+  const userId = req.user?.dbUserId;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return null;
+  }
+
+  const session = await prisma.uploadSession.findUnique({
+    where: { id: uploadId }
+  });
+
+  if (!session || session.boardId !== boardId || session.userId !== userId || session.expiresAt < new Date()) {
+    res.status(404).json({ error: 'Upload not found' });
+    return null;
+  }
+
+  return session;
+}
+
+/**
+ * Check the quotas again when completing, since other uploads may have finished
+ * meanwhile; sends 413 and returns true if the file no longer fits
+ */
+async function rejectOverQuota(session: UploadSession, contentHash: string, res: Response): Promise<boolean> {
+  const exceededQuota = await findExceededQuota(session.userId, session.boardId, session.fileSize, contentHash);
+  if (exceededQuota) {
+    res.status(413).json(quotaExceededError(exceededQuota));
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Start a resumable upload. The client then sends `chunkCount` chunks of
+ * `chunkSize` bytes (the last one holds the rest) and completes the upload.
+ */
+export async function initUpload(req: Request, res: Response): Promise<void> {
+  try {
+    const { boardId } = req.params;
+    const { fileName, fileType, fileSize } = req.body;
+    const userId = req.user?.dbUserId;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    if (typeof fileName !== 'string' || !fileName.trim() || fileName.length > 255 || /[\/\\]/.test(fileName)) {
+      res.status(400).json({ error: 'A valid fileName is required' });
+      return;
+    }
+
+    if (!Number.isInteger(fileSize) || fileSize <= 0) {
+      res.status(400).json({ error: 'fileSize must be a positive number of bytes' });
+      return;
+    }
+
+    const declaredType = typeof fileType === 'string' ? normalizeMimeType(fileType) : '';
+    if (!validateFileType(declaredType)) {
+      res.status(415).json({ error: 'Unsupported file type' });
+      return;
+    }
+
+    const maxSize = isProcessedType(declaredType) ? MAX_PROCESSED_FILE_SIZE_BYTES : MAX_UPLOAD_SIZE_BYTES;
+    if (fileSize > maxSize) {
+      res.status(413).json({ error: 'File is too large', maxSize });
+      return;
+    }
+
+    const board = await prisma.board.findUnique({
+      where: { id: boardId },
+      include: { members: true }
+    });
+
+    if (!board) {
+      res.status(404).json({ error: 'Board not found' });
+      return;
+    }
+
+    if (!canEditBoard(board, userId)) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const exceededQuota = await findExceededQuota(userId, boardId, fileSize);
+    if (exceededQuota) {
+      res.status(413).json(quotaExceededError(exceededQuota));
+      return;
+    }
+
+    const session = await prisma.uploadSession.create({
+      data: {
+        boardId,
+        userId,
+        fileName: fileName.trim(),
+        fileType: declaredType,
+        fileSize,
+        chunkSize: UPLOAD_CHUNK_SIZE_BYTES,
+        expiresAt: getUploadExpiry()
+      }
+    });
+
+    res.status(201).json({
+      uploadId: session.id,
+      chunkSize: session.chunkSize,
+      chunkCount: getChunkCount(session),
+      expiresAt: session.expiresAt
+    });
+  } catch (error) {
+    console.error('Error starting upload:', error);
+    res.status(500).json({ error: 'Failed to start upload' });
+  }
+}
+
+/**
+ * State of an upload, so a client that reconnects can send the missing chunks
+ */
+export async function getUploadStatus(req: Request, res: Response): Promise<void> {
+  try {
+    const session = await findUploadSession(req, res);
+    if (!session) return;
+
+    const chunks = await prisma.uploadChunk.findMany({
+      where: { sessionId: session.id },
+      select: { index: true },
+      orderBy: { index: 'asc' }
+    });
+
+    res.json({
+      uploadId: session.id,
+      fileName: session.fileName,
+      fileType: session.fileType,
+      fileSize: session.fileSize,
+      chunkSize: session.chunkSize,
+      chunkCount: getChunkCount(session),
+      receivedChunks: chunks.map(chunk => chunk.index),
+      status: session.status,
+      expiresAt: session.expiresAt
+    });
+  } catch (error) {
+    console.error('Error fetching upload:', error);
+    res.status(500).json({ error: 'Failed to fetch upload' });
+  }
+}
+
+/**
+ * Store one chunk, sent as the raw request body. Chunks may arrive in any
+ * order; sending a chunk again replaces it.
+ */
+export async function uploadChunk(req: Request, res: Response): Promise<void> {
+  try {
+    const session = await findUploadSession(req, res);
+    if (!session) return;
+
+    const index = Number(req.params.index);
+    if (!Number.isInteger(index) || index < 0 || index >= getChunkCount(session)) {
+      res.status(400).json({ error: 'Invalid chunk index' });
+      return;
+    }
+
+    if (session.status !== 'active') {
+      res.status(409).json({ error: 'Upload is being completed' });
+      return;
+    }
+
+    const expectedSize = getExpectedChunkSize(session, index);
+    const declaredSize = req.headers['content-length'];
+    if (declaredSize !== undefined && Number(declaredSize) !== expectedSize) {
+      res.status(400).json({ error: `Chunk ${index} must be ${expectedSize} bytes` });
+      return;
+    }
+
+    // Until the new data is stored, the chunk counts as missing
+    await prisma.uploadChunk.deleteMany({ where: { sessionId: session.id, index } });
+
+    let received = 0;
+    const counter = new Transform({
+      transform(data: Buffer, _encoding, callback) {
+        received += data.length;
+        callback(received > expectedSize ? new Error('Chunk is too large') : null, data);
+      }
+    });
+
+    const chunkRef = getChunkRef(session.id, index);
+    try {
+      await Promise.all([
+        pipeline(req, counter),
+        saveFileStream(chunkRef, counter, 'application/octet-stream')
+      ]);
+    } catch (error) {
+      await deleteFile(chunkRef).catch(() => undefined);
+      if (received > expectedSize) {
+        res.status(413).json({ error: `Chunk ${index} must be ${expectedSize} bytes` });
+        return;
+      }
+      throw error;
+    }
+
+    if (received !== expectedSize) {
+      await deleteFile(chunkRef).catch(() => undefined);
+      res.status(400).json({ error: `Chunk ${index} must be ${expectedSize} bytes` });
+      return;
+    }
+
+    await prisma.uploadChunk.create({
+      data: { sessionId: session.id, index, size: received }
+    });
+    await prisma.uploadSession.update({
+      where: { id: session.id },
+      data: { expiresAt: getUploadExpiry() }
+    });
+
+    const receivedChunks = await prisma.uploadChunk.count({ where: { sessionId: session.id } });
+
+    res.json({ index, size: received, receivedChunks, chunkCount: getChunkCount(session) });
+  } catch (error) {
+    console.error('Error uploading chunk:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Failed to upload chunk' });
+    }
+  }
+}
+
+/**
+ * Join the uploaded chunks into a board asset
+ */
+export async function completeUpload(req: Request, res: Response): Promise<void> {
+  let session: UploadSession | null = null;
+  let claimed = false;
+  let completed = false;
+  let storedFile: StoredAssetFile | null = null;
+
+  try {
+    session = await findUploadSession(req, res);
+    if (!session) return;
+
+    // Only one request may complete a session
+    const { count } = await prisma.uploadSession.updateMany({
+      where: { id: session.id, status: 'active' },
+      data: { status: 'completing', expiresAt: getUploadExpiry() }
+    });
+
+    if (count === 0) {
+      res.status(409).json({ error: 'Upload is already being completed' });
+      return;
+    }
+    claimed = true;
+
+    const board = await prisma.board.findUnique({
+      where: { id: session.boardId },
+      include: { members: true }
+    });
+    if (!board || !canEditBoard(board, session.userId)) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const chunks = await prisma.uploadChunk.findMany({
+      where: { sessionId: session.id },
+      select: { index: true }
+    });
+    const received = new Set(chunks.map(chunk => chunk.index));
+    const missingChunks: number[] = [];
+    for (let index = 0; index < getChunkCount(session); index++) {
+      if (!received.has(index)) missingChunks.push(index);
+    }
+
+    if (missingChunks.length > 0) {
+      res.status(400).json({ error: 'Upload is missing chunks', missingChunks });
+      return;
+    }
+
+    // The declared type comes from the client; the contents decide what the file is
+    const fileType = detectFileType(await readUploadHead(session, FILE_TYPE_SNIFF_BYTES));
+    if (fileType !== session.fileType) {
+      res.status(400).json({ error: `File content (${fileType || 'unknown'}) does not match its declared type (${session.fileType})` });
+      return;
+    }
+
+    // Content that is already stored is referenced, not stored again
+    const assetData = { boardId: board.id, fileName: session.fileName, uploadedById: session.userId };
+    let asset: Asset | null;
+
+    if (isProcessedType(fileType)) {
+      const contents = await readUpload(session);
+      const contentHash = hashFileContents(contents);
+      if (await rejectOverQuota(session, contentHash, res)) return;
+      asset = await createAssetOnFile(await findSharedAssetFile(contentHash), assetData);
+
+      if (!asset) {
+        let preparedFile: PreparedAssetFile;
+        try {
+          preparedFile = await prepareAssetFile(contents, fileType);
+        } catch (error) {
+          res.status(400).json({ error: 'Could not read image file' });
+          return;
+        }
+        storedFile = await storeSharedAssetFile(contentHash, preparedFile, board.isPublic);
+        asset = await createAssetOnFile(storedFile, assetData);
+      }
+    } else {
+      // Large files are hashed, then streamed from the chunks into place
+      const contentHash = await hashUpload(session);
+      if (await rejectOverQuota(session, contentHash, res)) return;
+      asset = await createAssetOnFile(await findSharedAssetFile(contentHash), assetData);
+
+      if (!asset) {
+        const storageRef = getSharedFileRef(contentHash, 'file', fileType);
+        const url = await saveFileStream(storageRef, streamUpload(session), fileType, board.isPublic);
+        storedFile = { fileType, fileSize: session.fileSize, url, storageRef, contentHash };
+        asset = await createAssetOnFile(storedFile, assetData);
+      }
+    }
+
+    if (!asset) {
+      throw new Error(`Stored files of upload ${session.id} were released while the asset was created`);
+    }
+    completed = true;
+
+    await deleteUploadSession(session.id).catch(error => {
+      console.warn('Failed to remove completed upload session:', error);
+    });
+
+    const [readableAsset] = await withReadableAssetUrls([asset], board.isPublic);
+    res.status(201).json(readableAsset);
+  } catch (error) {
+    console.error('Error completing upload:', error);
+    if (storedFile && !completed) {
+      await releaseAssetFiles(storedFile).catch(releaseError => {
+        console.warn('Failed to delete file from storage:', releaseError);
+      });
+    }
+    res.status(500).json({ error: 'Failed to complete upload' });
+  } finally {
+    // A failed attempt can be retried (after sending missing chunks, for example)
+    if (session && claimed && !completed) {
+      await prisma.uploadSession.updateMany({
+        where: { id: session.id },
+        data: { status: 'active' }
+      }).catch(error => {
+        console.warn('Failed to reopen upload session:', error);
+      });
+    }
+  }
+}
+
+/**
+ * Cancel an upload and discard its chunks
+ */
+export async function abortUpload(req: Request, res: Response): Promise<void> {
+  try {
+    const session = await findUploadSession(req, res);
+    if (!session) return;
+
+    if (session.status !== 'active') {
+      res.status(409).json({ error: 'Upload is being completed' });
+      return;
+    }
+
+    await deleteUploadSession(session.id);
+
+    res.json({ message: 'Upload cancelled' });
+  } catch (error) {
+    console.error('Error cancelling upload:', error);
+    res.status(500).json({ error: 'Failed to cancel upload' });
+  }
+}
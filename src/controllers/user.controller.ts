@@ -1,5 +1,21 @@
 import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../config/database';
+import { createAssetOnFile, findSharedAssetFile } from '../utils/assetFiles';
+import { withReadableAssetUrls } from '../utils/assetUrls';
+import { findExceededQuota, getUserStorageUsage, quotaExceededError } from '../utils/storageQuotas';
+
+/**
+ * Build the email/name lookup used by user search
+ */
+function buildUserSearchFilter(query: string): Prisma.UserWhereInput {
+  return {
+    OR: [
+      { email: { contains: query, mode: 'insensitive' } },
+      { name: { contains: query, mode: 'insensitive' } }
+    ]
+  };
+}
 
 /**
  * Get current user profile
@@ -21,6 +37,7 @@ export async function getCurrentUser(req: Request, res: Response): Promise<void>
         name: true,
         profileImage: true,
         firebaseUid: true,
+        tier: true,
         createdAt: true,
         updatedAt: true,
         _count: {
@@ -93,13 +110,14 @@ export async function getUserStats(req: Request, res: Response): Promise<void> {
       return;
     }
 
-    const [ownedBoardsCount, sharedBoardsCount, totalAssetsCount] = await Promise.all([
+    const [ownedBoardsCount, sharedBoardsCount, totalAssetsCount, storage] = await Promise.all([
       prisma.board.count({ where: { ownerId: userId } }),
       prisma.boardMember.count({ where: { userId } }),
       prisma.board.findMany({
         where: { ownerId: userId },
         include: { _count: { select: { assets: true } } }
-      })
+      }),
+      getUserStorageUsage(userId)
     ]);
 
     const totalAssets = totalAssetsCount.reduce((sum, board) => sum + board._count.assets, 0);
@@ -108,6 +126,8 @@ export async function getUserStats(req: Request, res: Response): Promise<void> {
       ownedBoards: ownedBoardsCount,
       sharedBoards: sharedBoardsCount,
       totalAssets,
+      // Bytes of the files the user uploaded, against the quota of their tier
+      storage,
       memberSince: (await prisma.user.findUnique({
         where: { id: userId },
         select: { createdAt: true }
@@ -155,12 +175,7 @@ export async function searchUsers(req: Request, res: Response): Promise<void> {
     }
 
     const users = await prisma.user.findMany({
-      where: {
-        OR: [
-          { email: { contains: query, mode: 'insensitive' } },
-          { name: { contains: query, mode: 'insensitive' } }
-        ]
-      },
+      where: buildUserSearchFilter(query),
       select: {
         id: true,
         email: true,
@@ -177,3 +192,239 @@ export async function searchUsers(req: Request, res: Response): Promise<void> {
   }
 }
 
+
+/**
+ * Get the current user's mention inbox
+ */
+export async function getMentionInbox(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.user?.dbUserId;
+    const { unread } = req.query;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const page = Math.max(parseInt(String(req.query.page || '1'), 10) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit || '50'), 10) || 50, 1), 100);
+
+    const where = {
+      userId,
+      ...(unread === 'true' && { read: false })
+    };
+
+    const [mentions, total, unreadCount] = await Promise.all([
+      prisma.commentMention.findMany({
+        where,
+        include: {
+          comment: {
+            select: {
+              id: true,
+              parentId: true,
+              elementId: true,
+              content: true,
+              createdAt: true,
+              user: {
+                select: {
+                  id: true,
+                  name: true,
+                  email: true,
+                  profileImage: true
+                }
+              },
+              board: {
+                select: {
+                  id: true,
+                  title: true
+                }
+              }
+            }
+          }
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.commentMention.count({ where }),
+      prisma.commentMention.count({ where: { userId, read: false } })
+    ]);
+
+    res.json({
+      mentions,
+      unreadCount,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching mention inbox:', error);
+    res.status(500).json({ error: 'Failed to fetch mentions' });
+  }
+}
+
+/**
+ * Mark mentions as read (a single one, or all when no mentionId is given)
+ */
+export async function markMentionsRead(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.user?.dbUserId;
+    const { mentionId } = req.params;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const result = await prisma.commentMention.updateMany({
+      where: {
+        userId,
+        read: false,
+        ...(mentionId && { id: mentionId })
+      },
+      data: { read: true }
+    });
+
+    res.json({ updated: result.count });
+  } catch (error) {
+    console.error('Error marking mentions as read:', error);
+    res.status(500).json({ error: 'Failed to update mentions' });
+  }
+}
+
+/**
+ * Get the current user's asset library: every file they uploaded, once per
+ * content, newest first. `type` filters by MIME type prefix (e.g. `image/`).
+ */
+export async function getAssetLibrary(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.user?.dbUserId;
+    const { type } = req.query;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const page = Math.max(parseInt(String(req.query.page || '1'), 10) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit || '50'), 10) || 50, 1), 100);
+
+    const where: Prisma.AssetWhereInput = {
+      uploadedById: userId,
+      contentHash: { not: null },
+      ...(typeof type === 'string' && type && { fileType: { startsWith: type } })
+    };
+
+    const [assets, contents] = await Promise.all([
+      prisma.asset.findMany({
+        where,
+        distinct: ['contentHash'],
+        select: {
+          id: true,
+          fileName: true,
+          fileType: true,
+          fileSize: true,
+          url: true,
+          width: true,
+          height: true,
+          derivatives: true,
+          uploadedAt: true,
+          board: {
+            select: {
+              id: true,
+              title: true
+            }
+          }
+        },
+        orderBy: { uploadedAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.asset.groupBy({ by: ['contentHash'], where })
+    ]);
+
+    res.json({
+      // The user may no longer be on the board a file was uploaded to, so URLs are always signed
+      assets: await withReadableAssetUrls(assets, false),
+      pagination: {
+        page,
+        limit,
+        total: contents.length,
+        totalPages: Math.ceil(contents.length / limit)
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching asset library:', error);
+    res.status(500).json({ error: 'Failed to fetch asset library' });
+  }
+}
+
+/**
+ * Add an asset from the current user's library to a board they can edit.
+ * The new asset shares the stored files; nothing is uploaded again.
+ */
+export async function addLibraryAssetToBoard(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.user?.dbUserId;
+    const { assetId, boardId } = req.params;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const source = await prisma.asset.findUnique({
+      where: { id: assetId }
+    });
+
+    if (!source || source.uploadedById !== userId || !source.contentHash) {
+      res.status(404).json({ error: 'Asset not found' });
+      return;
+    }
+
+    const board = await prisma.board.findUnique({
+      where: { id: boardId },
+      include: { members: true }
+    });
+
+    if (!board) {
+      res.status(404).json({ error: 'Board not found' });
+      return;
+    }
+
+    const hasAccess =
+      board.ownerId === userId ||
+      board.members.some(m => m.userId === userId && m.role !== 'viewer');
+
+    if (!hasAccess) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const exceededQuota = await findExceededQuota(userId, boardId, source.fileSize, source.contentHash);
+    if (exceededQuota) {
+      res.status(413).json(quotaExceededError(exceededQuota));
+      return;
+    }
+
+    // The content may have been deleted since the library was listed
+    const asset = await createAssetOnFile(await findSharedAssetFile(source.contentHash), {
+      boardId,
+      fileName: source.fileName,
+      uploadedById: userId
+    });
+    if (!asset) {
+      res.status(404).json({ error: 'Asset not found' });
+      return;
+    }
+
+    const [readableAsset] = await withReadableAssetUrls([asset], board.isPublic);
+    res.status(201).json(readableAsset);
+  } catch (error) {
+    console.error('Error adding library asset to board:', error);
+    res.status(500).json({ error: 'Failed to add asset to board' });
+  }
+}
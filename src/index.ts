@@ -5,8 +5,8 @@
  * - User management and authentication (Firebase)
  * - Board CRUD operations (design projects)
  * - Project data save/load/autosave
- * - Version control and snapshots
- * - Asset upload to Firebase Storage
+ * - Version control and snapshots (named, and automatic with retention)
+ * - Asset upload to Firebase Storage (or local disk in development)
  * - Collaboration with role-based access
  * - Health monitoring and statistics
  * 
@@ -24,6 +24,8 @@ import express, { Express, Request, Response } from 'express';
 import cors from 'cors';
 import * as dotenv from 'dotenv';
 import http from 'http';
+import { Server as SocketIOServer } from 'socket.io';
+import { WebSocketServer } from 'ws';
 import boardRoutes from './routes/board.routes';
 import assetRoutes from './routes/asset.routes';
 import userRoutes from './routes/user.routes';
@@ -31,7 +33,15 @@ import projectRoutes from './routes/project.routes';
 import healthRoutes from './routes/health.routes';
 import invitationRoutes from './routes/invitation.routes';
 import { initWebSocketServer } from './websocket/collaboration';
+import { initYjsWebSocketServer, YJS_WEBSOCKET_PATH } from './websocket/yjsServer';
+import { flushAllBoardStates } from './websocket/persistence';
+import { initCluster, closeCluster } from './websocket/cluster';
+import { createPubSubAdapter } from './websocket/pubsub';
+import { watchBoardOwnership } from './websocket/boardDocuments';
 import { prisma } from './config/database';
+import { startUploadCleanup, stopUploadCleanup } from './utils/uploadSessions';
+import { startAssetGc, stopAssetGc } from './utils/assetGarbageCollection';
+import { startVersionRetention, stopVersionRetention } from './utils/autoVersions';
 
 dotenv.config();
 
@@ -123,15 +133,31 @@ app.use((err: Error, _req: Request, res: Response, _next: any) => {
   });
 });
 
+// Cross-process fan-out of collaboration traffic (also used by REST-only instances for comment events)
+initCluster(createPubSubAdapter());
+watchBoardOwnership();
+
+// Remove upload sessions that clients abandoned, and assets and files nothing uses
+startUploadCleanup();
+startAssetGc();
+
+// Thin out automatic version snapshots of boards that are no longer edited
+startVersionRetention();
+
+let io: SocketIOServer | null = null;
+let wss: WebSocketServer | null = null;
+
 if (process.env.ENABLE_WEBSOCKET !== 'false') {
-  initWebSocketServer(server);
+  io = initWebSocketServer(server);
+  wss = initYjsWebSocketServer(server);
 }
 
 server.listen(PORT, async () => {
   console.log('🚀 Sowntra Backend Server');
   console.log(`📡 HTTP Server: http://localhost:${PORT}`);
   if (process.env.ENABLE_WEBSOCKET !== 'false') {
-    console.log(`🔌 WebSocket Server: ws://localhost:${PORT}/collaboration`);
+    console.log(`🔌 Socket.IO Server: ws://localhost:${PORT}/socket.io/`);
+    console.log(`🔌 Yjs WebSocket Server: ws://localhost:${PORT}${YJS_WEBSOCKET_PATH}/:boardId`);
   }
   console.log(`🌍 Environment: ${process.env.NODE_ENV || 'development'}`);
   
@@ -145,23 +171,58 @@ server.listen(PORT, async () => {
 });
 
 // Graceful shutdown
-process.on('SIGTERM', async () => {
-  console.log('SIGTERM signal received: closing HTTP server');
-  server.close(async () => {
-    await prisma.$disconnect();
-    console.log('HTTP server closed');
-    process.exit(0);
-  });
-});
+// Exit even if connections or writes hang for longer than this
+const SHUTDOWN_TIMEOUT_MS = 15000;
+
+let shuttingDown = false;
+
+async function shutdown(signal: string): Promise<void> {
+  if (shuttingDown) return;
+  shuttingDown = true;
+
+  console.log(`${signal} signal received: closing HTTP server`);
 
-process.on('SIGINT', async () => {
-  console.log('SIGINT signal received: closing HTTP server');
-  server.close(async () => {
+  const forceExit = setTimeout(() => {
+    console.error('Graceful shutdown timed out, exiting');
+    process.exit(1);
+  }, SHUTDOWN_TIMEOUT_MS);
+  forceExit.unref();
+
+  try {
+    stopUploadCleanup();
+    stopAssetGc();
+    stopVersionRetention();
+
+    // Stop accepting connections, then disconnect collaborators so no edit
+    // arrives after their boards are written
+    const serverClosed = new Promise<void>(resolve => server.close(() => resolve()));
+    io?.local.disconnectSockets(true);
+    wss?.clients.forEach(ws => ws.terminate());
+    server.closeIdleConnections();
+    await serverClosed;
+
+    // Write unsaved collaborative edits before the database goes away,
+    // then drop board ownership so another instance can take over
+    let boardsSaved = true;
+    try {
+      await flushAllBoardStates();
+    } catch (error) {
+      console.error('Error saving board states on shutdown:', error);
+      boardsSaved = false;
+    }
+    await closeCluster();
     await prisma.$disconnect();
+
     console.log('HTTP server closed');
-    process.exit(0);
-  });
-});
+    process.exit(boardsSaved ? 0 : 1);
+  } catch (error) {
+    console.error('Error during shutdown:', error);
+    process.exit(1);
+  }
+}
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
 
 export default app;
 
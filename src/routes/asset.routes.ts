@@ -1,7 +1,8 @@
 import { Router } from 'express';
 import multer from 'multer';
-import { uploadAsset, getAssets, deleteAsset } from '../controllers/asset.controller';
-import { authenticateUser } from '../middleware/auth';
+import { uploadAsset, getAssets, deleteAsset, getOrphanedAssets, serveAssetFile } from '../controllers/asset.controller';
+import { initUpload, getUploadStatus, uploadChunk, completeUpload, abortUpload } from '../controllers/upload.controller';
+import { authenticateUser, optionalAuth } from '../middleware/auth';
 
 const router = Router();
 
@@ -13,13 +14,24 @@ const upload = multer({
   },
 });
 
-// All asset routes require authentication
+// Files kept on local disk (ASSET_STORAGE=local); signed URLs work without a token
+router.get('/file/*', optionalAuth, serveAssetFile);
+
+// All other asset routes require authentication
 router.use(authenticateUser);
 
 // Asset routes
 router.post('/:boardId/upload', upload.single('file'), uploadAsset);
 router.get('/:boardId', getAssets);
+router.get('/:boardId/orphans', getOrphanedAssets);
 router.delete('/:boardId/:assetId', deleteAsset);
 
+// Resumable uploads of large files; chunks are sent as raw bodies (application/octet-stream)
+router.post('/:boardId/uploads', initUpload);
+router.get('/:boardId/uploads/:uploadId', getUploadStatus);
+router.put('/:boardId/uploads/:uploadId/chunks/:index', uploadChunk);
+router.post('/:boardId/uploads/:uploadId/complete', completeUpload);
+router.delete('/:boardId/uploads/:uploadId', abortUpload);
+
 export default router;
 
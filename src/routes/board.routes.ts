@@ -6,8 +6,22 @@ import {
   updateBoard,
   deleteBoard,
   addBoardMember,
+  updateBoardMemberRole,
   removeBoardMember
 } from '../controllers/board.controller';
+import {
+  listComments,
+  createComment,
+  updateComment,
+  resolveComment,
+  reopenComment,
+  deleteComment,
+  listReplies,
+  createReply,
+  addReaction,
+  removeReaction
+} from '../controllers/comment.controller';
+import { exportBoardSvg, exportBoardArchive } from '../controllers/export.controller';
 import { authenticateUser } from '../middleware/auth';
 
 const router = Router();
@@ -22,9 +36,27 @@ router.get('/:id', getBoard);
 router.put('/:id', updateBoard);
 router.delete('/:id', deleteBoard);
 
+// Board export (?page= page id or 1-based number, ?embed=true to inline assets)
+router.get('/:id/export.svg', exportBoardSvg);
+// Portable archive with versions, comments and asset files (import via POST /api/projects/import/archive)
+router.get('/:id/export.sowntra', exportBoardArchive);
+
 // Board member management
 router.post('/:id/members', addBoardMember);
+router.put('/:id/members/:memberId', updateBoardMemberRole);
 router.delete('/:id/members/:memberId', removeBoardMember);
 
+// Board comments
+router.get('/:id/comments', listComments);
+router.post('/:id/comments', createComment);
+router.put('/:id/comments/:commentId', updateComment);
+router.post('/:id/comments/:commentId/resolve', resolveComment);
+router.post('/:id/comments/:commentId/reopen', reopenComment);
+router.delete('/:id/comments/:commentId', deleteComment);
+router.get('/:id/comments/:commentId/replies', listReplies);
+router.post('/:id/comments/:commentId/replies', createReply);
+router.post('/:id/comments/:commentId/reactions', addReaction);
+router.delete('/:id/comments/:commentId/reactions/:emoji', removeReaction);
+
 export default router;
 
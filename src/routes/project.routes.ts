@@ -1,4 +1,5 @@
 import { Router } from 'express';
+import multer from 'multer';
 import {
   saveProjectData,
   loadProjectData,
@@ -9,16 +10,37 @@ import {
   getUserProjects,
   loadUserProject,
   updateUserProject,
-  deleteUserProject
+  deleteUserProject,
+  importProject,
+  importBoardArchive
 } from '../controllers/project.controller';
+import { exportProjectPng, exportProjectPdf } from '../controllers/export.controller';
 import { authenticateUser } from '../middleware/auth';
 
 const router = Router();
 
+// Imported files are parsed in memory
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+  },
+});
+
+// Board archives carry every asset file of the board
+const archiveUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 100 * 1024 * 1024, // 100MB limit
+  },
+});
+
 router.use(authenticateUser);
 
 // User project routes (without boardId)
 router.post('/save', saveProjectData);
+router.post('/import', upload.single('file'), importProject);
+router.post('/import/archive', archiveUpload.single('file'), importBoardArchive);
 router.get('/', getUserProjects);
 router.get('/:projectId', loadUserProject);
 router.put('/:projectId', updateUserProject);
@@ -29,6 +51,10 @@ router.post('/:boardId/save', saveProjectData);
 router.get('/:boardId/load', loadProjectData);
 router.post('/:boardId/autosave', autoSaveProjectData);
 
+// Rendered exports (?page= for PNG, ?scale= for both)
+router.get('/:boardId/export.png', exportProjectPng);
+router.get('/:boardId/export.pdf', exportProjectPdf);
+
 router.post('/:boardId/versions', createProjectVersion);
 router.get('/:boardId/versions', getProjectVersions);
 router.post('/:boardId/versions/:versionId/restore', restoreProjectVersion);
@@ -4,7 +4,11 @@ import {
   updateUserProfile,
   getUserStats,
   deleteUserAccount,
-  searchUsers
+  searchUsers,
+  getMentionInbox,
+  markMentionsRead,
+  getAssetLibrary,
+  addLibraryAssetToBoard
 } from '../controllers/user.controller';
 import { authenticateUser } from '../middleware/auth';
 
@@ -16,6 +20,11 @@ router.get('/me', getCurrentUser);
 router.put('/me', updateUserProfile);
 router.get('/me/stats', getUserStats);
 router.delete('/me', deleteUserAccount);
+router.get('/me/mentions', getMentionInbox);
+router.post('/me/mentions/read', markMentionsRead);
+router.post('/me/mentions/:mentionId/read', markMentionsRead);
+router.get('/me/assets', getAssetLibrary);
+router.post('/me/assets/:assetId/boards/:boardId', addLibraryAssetToBoard);
 router.get('/search', searchUsers);
 
 export default router;
@@ -0,0 +1,151 @@
+import * as dotenv from 'dotenv';
+import { prisma } from '../config/database';
+import { decodeBoardState, detectBoardStateFormat, encodeProjectState } from '../utils/projectState';
+import { CURRENT_SCHEMA_VERSION, MigrationResult, migrateProjectData } from '../utils/projectMigrations';
+import { writeBoardProjectData } from '../websocket/boardDocuments';
+import { initCluster, closeCluster } from '../websocket/cluster';
+import { createPubSubAdapter } from '../websocket/pubsub';
+
+dotenv.config();
+
+/**
+ * Rewrite every board and board version in the canonical format: Yjs state
+ * (converting JSON project data) at the current project schema version.
+ * Safe to run repeatedly; rows that are already current are left untouched.
+ *
+ *   npm run migrate:board-states [-- --dry-run]
+ *
+ * With COLLAB_PUBSUB=postgres, board changes also reach running servers that
+ * have the board open, so live collaborators are upgraded too.
+ */
+
+const BATCH_SIZE = 100;
+
+interface MigrationCounts {
+  migrated: number;
+  skipped: number;
+  failed: number;
+}
+
+/**
+ * Upgraded project data for a stored state, or null if it is already current
+ */
+function upgradeStoredState(state: Uint8Array | null): MigrationResult | null {
+  const format = detectBoardStateFormat(state);
+  if (format === 'empty' || format === 'unknown') {
+    return null;
+  }
+
+  const result = migrateProjectData(decodeBoardState(state));
+  return format === 'json' || result.migrated ? result : null;
+}
+
+async function migrateBoards(dryRun: boolean): Promise<MigrationCounts> {
+  const counts: MigrationCounts = { migrated: 0, skipped: 0, failed: 0 };
+  let cursor: string | undefined;
+
+  for (;;) {
+    const boards = await prisma.board.findMany({
+      take: BATCH_SIZE,
+      ...(cursor && { skip: 1, cursor: { id: cursor } }),
+      orderBy: { id: 'asc' },
+      select: { id: true, yDocState: true }
+    });
+    if (boards.length === 0) break;
+    cursor = boards[boards.length - 1].id;
+
+    for (const board of boards) {
+      try {
+        if (detectBoardStateFormat(board.yDocState) === 'unknown') {
+          console.warn(`Board ${board.id} has state in an unknown format`);
+        }
+
+        const upgrade = upgradeStoredState(board.yDocState);
+        if (!upgrade) {
+          counts.skipped++;
+          continue;
+        }
+
+        if (!dryRun) {
+          // lastModified is left alone: nobody edited the content
+          await writeBoardProjectData(board.id, upgrade.projectData, { preserveLastModified: true });
+        }
+        counts.migrated++;
+      } catch (error) {
+        console.error(`Error migrating board ${board.id}:`, error);
+        counts.failed++;
+      }
+    }
+  }
+
+  return counts;
+}
+
+async function migrateVersions(dryRun: boolean): Promise<MigrationCounts> {
+  const counts: MigrationCounts = { migrated: 0, skipped: 0, failed: 0 };
+  let cursor: string | undefined;
+
+  for (;;) {
+    const versions = await prisma.boardVersion.findMany({
+      take: BATCH_SIZE,
+      ...(cursor && { skip: 1, cursor: { id: cursor } }),
+      orderBy: { id: 'asc' },
+      select: { id: true, yDocState: true }
+    });
+    if (versions.length === 0) break;
+    cursor = versions[versions.length - 1].id;
+
+    for (const version of versions) {
+      try {
+        const upgrade = upgradeStoredState(version.yDocState);
+        if (!upgrade) {
+          counts.skipped++;
+          continue;
+        }
+
+        if (!dryRun) {
+          await prisma.boardVersion.update({
+            where: { id: version.id },
+            data: { yDocState: encodeProjectState(upgrade.projectData) }
+          });
+        }
+        counts.migrated++;
+      } catch (error) {
+        console.error(`Error migrating board version ${version.id}:`, error);
+        counts.failed++;
+      }
+    }
+  }
+
+  return counts;
+}
+
+async function main(): Promise<void> {
+  const dryRun = process.argv.includes('--dry-run');
+
+  initCluster(createPubSubAdapter());
+
+  console.log(`Migrating board states to Yjs, schema version ${CURRENT_SCHEMA_VERSION}`);
+
+  const boards = await migrateBoards(dryRun);
+  console.log(`Boards: ${boards.migrated} migrated, ${boards.skipped} already current, ${boards.failed} failed`);
+
+  const versions = await migrateVersions(dryRun);
+  console.log(`Versions: ${versions.migrated} migrated, ${versions.skipped} already current, ${versions.failed} failed`);
+
+  if (dryRun) {
+    console.log('Dry run: no rows were changed');
+  }
+
+  process.exitCode = boards.failed + versions.failed > 0 ? 1 : 0;
+}
+
+main()
+  .catch(error => {
+    console.error('Board state migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await closeCluster();
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,47 @@
+import * as dotenv from 'dotenv';
+import { prisma } from '../config/database';
+import { setBoardFilesPublic } from '../utils/assetUrls';
+
+dotenv.config();
+
+/**
+ * Make the stored files of every board match the board's visibility: public
+ * boards keep public files, files of private boards become private. Files
+ * uploaded before assets were private were all made public.
+ *
+ *   npm run sync:asset-visibility
+ */
+
+const BATCH_SIZE = 100;
+
+async function main(): Promise<void> {
+  let cursor: string | undefined;
+  let updated = 0;
+
+  for (;;) {
+    const boards = await prisma.board.findMany({
+      take: BATCH_SIZE,
+      ...(cursor && { skip: 1, cursor: { id: cursor } }),
+      orderBy: { id: 'asc' },
+      select: { id: true, isPublic: true }
+    });
+    if (boards.length === 0) break;
+    cursor = boards[boards.length - 1].id;
+
+    for (const board of boards) {
+      await setBoardFilesPublic(board.id, board.isPublic);
+      updated++;
+    }
+  }
+
+  console.log(`Updated file visibility for ${updated} boards`);
+}
+
+main()
+  .catch(error => {
+    console.error('Asset visibility sync failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
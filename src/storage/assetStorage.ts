@@ -0,0 +1,89 @@
+import { Readable } from 'stream';
+import { StorageDriver, StoredFile, StoredFileInfo, createStorageDriver } from './storageDriver';
+
+/**
+ * File storage for board assets and generated images (thumbnails).
+ * Files are addressed by their storage path (`storageRef`); the backend
+ * is chosen by ASSET_STORAGE (see createStorageDriver).
+ */
+
+let driver: StorageDriver | null = null;
+
+function getStorageDriver(): StorageDriver {
+  if (!driver) {
+    driver = createStorageDriver();
+  }
+  return driver;
+}
+
+/**
+ * Store a file; returns its permanent URL. Files are private unless `isPublic`
+ * (files of public boards); private files are read through signed URLs.
+ */
+export async function saveFile(storageRef: string, contents: Buffer, contentType: string, isPublic: boolean = false): Promise<string> {
+  return getStorageDriver().put(storageRef, contents, contentType, isPublic);
+}
+
+/**
+ * Store a file from a stream; see saveFile
+ */
+export async function saveFileStream(storageRef: string, contents: Readable, contentType: string, isPublic: boolean = false): Promise<string> {
+  return getStorageDriver().putStream(storageRef, contents, contentType, isPublic);
+}
+
+export async function setFilePublic(storageRef: string, isPublic: boolean): Promise<void> {
+  await getStorageDriver().setPublic(storageRef, isPublic);
+}
+
+/**
+ * Storage path of a URL returned by saveFile; null for other URLs
+ */
+export function getStorageRef(url: string): string | null {
+  return getStorageDriver().keyForUrl(url);
+}
+
+/**
+ * Open a stored file for streaming; null if it does not exist
+ */
+export async function openFile(storageRef: string): Promise<StoredFile | null> {
+  return getStorageDriver().get(storageRef);
+}
+
+export async function readFile(storageRef: string): Promise<Buffer> {
+  const file = await openFile(storageRef);
+  if (!file) {
+    throw new Error(`File not found: ${storageRef}`);
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of file.stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+export async function deleteFile(storageRef: string): Promise<void> {
+  await getStorageDriver().delete(storageRef);
+}
+
+/**
+ * Stored files whose path starts with `prefix` (e.g. `boards/<boardId>/`), in path order
+ */
+export function listFiles(prefix: string): AsyncIterable<StoredFileInfo> {
+  return getStorageDriver().list(prefix);
+}
+
+/**
+ * Time-limited URL for reading a file without other credentials
+ */
+export async function getSignedFileUrl(storageRef: string, expiresInSeconds: number): Promise<string> {
+  return getStorageDriver().getSignedUrl(storageRef, expiresInSeconds);
+}
+
+/**
+ * Check the ?expires=&signature= parameters of a signed URL served by this server
+ */
+export function verifyFileSignature(storageRef: string, expires: unknown, signature: unknown): boolean {
+  const storageDriver = getStorageDriver();
+  return storageDriver.verifySignature ? storageDriver.verifySignature(storageRef, expires, signature) : false;
+}
@@ -0,0 +1,96 @@
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { storage } from '../config/firebase';
+import type { StorageDriver, StoredFile, StoredFileInfo } from './storageDriver';
+
+const PUBLIC_URL_PREFIX = 'https://storage.googleapis.com/';
+
+/**
+ * Files in the Firebase Storage bucket (FIREBASE_STORAGE_BUCKET). Files are private
+ * unless made public; private files are read through signed URLs.
+ */
+export function createFirebaseStorage(): StorageDriver {
+  return {
+    async put(key: string, contents: Buffer, contentType: string, isPublic: boolean): Promise<string> {
+      const bucket = storage.bucket();
+      const file = bucket.file(key);
+
+      await file.save(contents, {
+        metadata: {
+          contentType,
+        },
+      });
+
+      if (isPublic) {
+        await file.makePublic();
+      }
+
+      return `${PUBLIC_URL_PREFIX}${bucket.name}/${key}`;
+    },
+
+    async putStream(key: string, contents: Readable, contentType: string, isPublic: boolean): Promise<string> {
+      const bucket = storage.bucket();
+      const file = bucket.file(key);
+
+      await pipeline(contents, file.createWriteStream({
+        metadata: {
+          contentType,
+        },
+      }));
+
+      if (isPublic) {
+        await file.makePublic();
+      }
+
+      return `${PUBLIC_URL_PREFIX}${bucket.name}/${key}`;
+    },
+
+    async get(key: string): Promise<StoredFile | null> {
+      const file = storage.bucket().file(key);
+
+      const [exists] = await file.exists();
+      if (!exists) {
+        return null;
+      }
+
+      const [metadata] = await file.getMetadata();
+      return {
+        stream: file.createReadStream(),
+        contentType: metadata.contentType || 'application/octet-stream',
+        size: Number(metadata.size) || 0
+      };
+    },
+
+    async delete(key: string): Promise<void> {
+      await storage.bucket().file(key).delete();
+    },
+
+    async *list(prefix: string): AsyncIterable<StoredFileInfo> {
+      for await (const file of storage.bucket().getFilesStream({ prefix })) {
+        yield { key: file.name, updatedAt: new Date(file.metadata.updated || 0) };
+      }
+    },
+
+    async setPublic(key: string, isPublic: boolean): Promise<void> {
+      const file = storage.bucket().file(key);
+      if (isPublic) {
+        await file.makePublic();
+      } else {
+        await file.makePrivate();
+      }
+    },
+
+    async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+      const [url] = await storage.bucket().file(key).getSignedUrl({
+        action: 'read',
+        expires: Date.now() + expiresInSeconds * 1000
+      });
+      return url;
+    },
+
+    keyForUrl(url: string): string | null {
+      const prefix = `${PUBLIC_URL_PREFIX}${storage.bucket().name}/`;
+      return url.startsWith(prefix) ? url.slice(prefix.length).split('?')[0] : null;
+    }
+  };
+}
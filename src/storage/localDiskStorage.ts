@@ -0,0 +1,174 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { createReadStream, createWriteStream } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { StorageDriver, StoredFile, StoredFileInfo } from './storageDriver';
+
+// Route that serves local files (see serveAssetFile)
+const LOCAL_FILE_ROUTE = '/api/assets/file';
+
+// Content type and size are kept next to each file
+const METADATA_SUFFIX = '.meta.json';
+
+export interface LocalDiskStorageOptions {
+  rootDir: string;
+  // Public base URL of this API server
+  baseUrl: string;
+  // Key for signed URLs; without one, signed URLs stop working when the server restarts
+  secret?: string;
+}
+
+/**
+ * Files on the local disk under `rootDir`, served by this server through an
+ * authenticated route. Meant for development and tests. The route checks board
+ * access on every request, so there is no per-file public flag.
+ */
+export function createLocalDiskStorage(options: LocalDiskStorageOptions): StorageDriver {
+  const rootDir = path.resolve(options.rootDir);
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+
+  if (!options.secret) {
+    console.warn('⚠️  LOCAL_STORAGE_SECRET is not set; signed file URLs will expire on restart');
+  }
+  const secret = options.secret || randomBytes(32).toString('hex');
+
+  const sign = (key: string, expires: number): string =>
+    createHmac('sha256', secret).update(`${key}\n${expires}`).digest('hex');
+
+  // Keys must stay inside the storage directory
+  const resolveKey = (key: string): string => {
+    const filePath = path.resolve(rootDir, key);
+    if (!filePath.startsWith(rootDir + path.sep) || key.endsWith(METADATA_SUFFIX)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  const urlPrefix = `${baseUrl}${LOCAL_FILE_ROUTE}/`;
+  const fileUrl = (key: string): string =>
+    `${urlPrefix}${key.split('/').map(encodeURIComponent).join('/')}`;
+
+  return {
+    async put(key: string, contents: Buffer, contentType: string, _isPublic: boolean): Promise<string> {
+      const filePath = resolveKey(key);
+
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, contents);
+      await fs.writeFile(filePath + METADATA_SUFFIX, JSON.stringify({ contentType, size: contents.length }));
+
+      return fileUrl(key);
+    },
+
+    async putStream(key: string, contents: Readable, contentType: string, _isPublic: boolean): Promise<string> {
+      const filePath = resolveKey(key);
+
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await pipeline(contents, createWriteStream(filePath));
+      const { size } = await fs.stat(filePath);
+      await fs.writeFile(filePath + METADATA_SUFFIX, JSON.stringify({ contentType, size }));
+
+      return fileUrl(key);
+    },
+
+    async get(key: string): Promise<StoredFile | null> {
+      const filePath = resolveKey(key);
+
+      let metadata: { contentType?: string; size?: number };
+      try {
+        metadata = JSON.parse(await fs.readFile(filePath + METADATA_SUFFIX, 'utf8'));
+      } catch (error: any) {
+        if (error.code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+
+      const { size } = await fs.stat(filePath);
+      return {
+        stream: createReadStream(filePath),
+        contentType: metadata.contentType || 'application/octet-stream',
+        size
+      };
+    },
+
+    async delete(key: string): Promise<void> {
+      const filePath = resolveKey(key);
+      await fs.rm(filePath, { force: true });
+      await fs.rm(filePath + METADATA_SUFFIX, { force: true });
+    },
+
+    async *list(prefix: string): AsyncIterable<StoredFileInfo> {
+      // Walk the deepest directory the prefix names, depth first in name order
+      const startDir = path.resolve(rootDir, prefix.slice(0, prefix.lastIndexOf('/') + 1));
+      if (startDir !== rootDir && !startDir.startsWith(rootDir + path.sep)) {
+        return;
+      }
+
+      async function* walk(dir: string): AsyncGenerator<string> {
+        let entries;
+        try {
+          entries = await fs.readdir(dir, { withFileTypes: true });
+        } catch (error: any) {
+          if (error.code === 'ENOENT') return;
+          throw error;
+        }
+
+        entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+        for (const entry of entries) {
+          const entryPath = path.join(dir, entry.name);
+          if (entry.isDirectory()) {
+            yield* walk(entryPath);
+          } else if (!entry.name.endsWith(METADATA_SUFFIX)) {
+            yield entryPath;
+          }
+        }
+      }
+
+      for await (const filePath of walk(startDir)) {
+        const key = path.relative(rootDir, filePath).split(path.sep).join('/');
+        if (key.startsWith(prefix)) {
+          const { mtime } = await fs.stat(filePath);
+          yield { key, updatedAt: mtime };
+        }
+      }
+    },
+
+    async setPublic(_key: string, _isPublic: boolean): Promise<void> {
+      // Access follows the board's visibility when the file is requested
+    },
+
+    async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+      resolveKey(key);
+      const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+      return `${fileUrl(key)}?expires=${expires}&signature=${sign(key, expires)}`;
+    },
+
+    keyForUrl(url: string): string | null {
+      if (!url.startsWith(urlPrefix)) {
+        return null;
+      }
+      try {
+        return decodeURIComponent(url.slice(urlPrefix.length).split('?')[0]);
+      } catch (error) {
+        return null;
+      }
+    },
+
+    verifySignature(key: string, expires: unknown, signature: unknown): boolean {
+      if (typeof expires !== 'string' || typeof signature !== 'string') {
+        return false;
+      }
+
+      const expiresAt = Number(expires);
+      if (!Number.isInteger(expiresAt) || expiresAt * 1000 < Date.now()) {
+        return false;
+      }
+
+      const expected = Buffer.from(sign(key, expiresAt));
+      const actual = Buffer.from(signature);
+      return expected.length === actual.length && timingSafeEqual(expected, actual);
+    }
+  };
+}
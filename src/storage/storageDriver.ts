@@ -0,0 +1,60 @@
+import * as path from 'path';
+import { Readable } from 'stream';
+import { createFirebaseStorage } from './firebaseStorage';
+import { createLocalDiskStorage } from './localDiskStorage';
+
+/**
+ * Backend for stored files (board assets, thumbnails), addressed by storage key
+ * (`storageRef`, e.g. `boards/<boardId>/<file>`).
+ */
+export interface StorageDriver {
+  // Store a file; returns its permanent URL, which is only readable by anyone once the file is public
+  put(key: string, contents: Buffer, contentType: string, isPublic: boolean): Promise<string>;
+  // Like put(), for contents too large to hold in memory
+  putStream(key: string, contents: Readable, contentType: string, isPublic: boolean): Promise<string>;
+  // null if there is no file with this key
+  get(key: string): Promise<StoredFile | null>;
+  delete(key: string): Promise<void>;
+  // Every file whose key starts with `prefix`, in key order
+  list(prefix: string): AsyncIterable<StoredFileInfo>;
+  setPublic(key: string, isPublic: boolean): Promise<void>;
+  // Time-limited read URL that needs no other credentials
+  getSignedUrl(key: string, expiresInSeconds: number): Promise<string>;
+  // Storage key of a URL returned by put(); null for URLs not served by this driver
+  keyForUrl(url: string): string | null;
+  // Drivers that serve files through this server check their own signed URLs
+  verifySignature?(key: string, expires: unknown, signature: unknown): boolean;
+}
+
+export interface StoredFile {
+  stream: Readable;
+  contentType: string;
+  size: number;
+}
+
+export interface StoredFileInfo {
+  key: string;
+  updatedAt: Date;
+}
+
+/**
+ * Create the driver selected by ASSET_STORAGE ('firebase' or 'local')
+ */
+export function createStorageDriver(): StorageDriver {
+  const driver = process.env.ASSET_STORAGE || 'firebase';
+
+  switch (driver) {
+    case 'firebase':
+      return createFirebaseStorage();
+    case 'local': {
+      const port = process.env.PORT || 4001;
+      return createLocalDiskStorage({
+        rootDir: path.resolve(process.env.LOCAL_STORAGE_DIR || 'uploads'),
+        baseUrl: process.env.LOCAL_STORAGE_URL || `http://localhost:${port}`,
+        secret: process.env.LOCAL_STORAGE_SECRET
+      });
+    }
+    default:
+      throw new Error(`Unknown ASSET_STORAGE driver: ${driver}`);
+  }
+}
@@ -10,6 +10,7 @@ export interface BoardData {
 }
 
 export interface ProjectData {
+  schemaVersion?: number;
   elements: Element[];
   pages: Page[];
   settings?: ProjectSettings;
@@ -46,6 +47,13 @@ export interface UserStats {
   ownedBoards: number;
   sharedBoards: number;
   totalAssets: number;
+  // Bytes of uploaded files
+  storage: {
+    tier: string;
+    used: number;
+    quota: number;
+    remaining: number;
+  };
   memberSince: Date;
 }
 
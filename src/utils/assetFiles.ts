@@ -0,0 +1,301 @@
+import { createHash } from 'crypto';
+import { Asset, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { deleteFile, openFile, saveFile, setFilePublic } from '../storage/assetStorage';
+import { DerivativeImage, PROCESSABLE_IMAGE_TYPES, processImage } from './imageProcessing';
+import { sanitizeSvg } from './svgSanitizer';
+
+/**
+ * Storing uploaded files as board assets, with the derivatives of images.
+ * Uploads are stored once per content (see storeSharedAssetFile): assets with
+ * the same bytes reference the same files, which are deleted with the last of them.
+ * Creating an asset on stored files and releasing them lock the files (see
+ * withStoredFileLock), so files are never deleted from under a new asset.
+ * Shared files are public exactly while an asset on a public board references them.
+ */
+
+export interface AssetDerivative {
+  name: string;
+  storageRef: string;
+  url: string;
+  fileType: string;
+  fileSize: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * File contents ready to be stored; images carry their size and derivatives
+ */
+export interface PreparedAssetFile {
+  contents: Buffer;
+  mimeType: string;
+  width: number | null;
+  height: number | null;
+  derivatives: DerivativeImage[];
+}
+
+/**
+ * File fields of an asset, as stored
+ */
+export type StoredAssetFile = Omit<Prisma.AssetCreateWithoutBoardInput, 'fileName' | 'uploadedBy'>;
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+  'application/pdf': 'pdf',
+  'video/mp4': 'mp4',
+  'video/quicktime': 'mov',
+  'video/webm': 'webm'
+};
+
+// File fields copied to every asset that shares stored content
+const SHARED_FILE_FIELDS = {
+  fileType: true,
+  fileSize: true,
+  url: true,
+  storageRef: true,
+  width: true,
+  height: true,
+  derivatives: true,
+  contentHash: true
+} as const;
+
+// Releasing files deletes them from storage while holding the lock
+const STORED_FILE_LOCK_TIMEOUT_MS = 60 * 1000;
+
+/**
+ * Run `run` in a transaction holding a lock on the stored file, so creating an
+ * asset on the file and releasing the file never interleave
+ */
+function withStoredFileLock<T>(storageRef: string, run: (tx: Prisma.TransactionClient) => Promise<T>): Promise<T> {
+  return prisma.$transaction(async tx => {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${storageRef}))`;
+    return run(tx);
+  }, { timeout: STORED_FILE_LOCK_TIMEOUT_MS });
+}
+
+/**
+ * Content hash identifying uploads with the same bytes
+ */
+export function hashFileContents(contents: Buffer): string {
+  return createHash('sha256').update(contents).digest('hex');
+}
+
+/**
+ * Storage path of shared content, by hash: blobs/<hash>/<name>.<ext>
+ */
+export function getSharedFileRef(contentHash: string, name: string, mimeType: string): string {
+  return `blobs/${contentHash}/${name}.${FILE_EXTENSIONS[mimeType] || 'bin'}`;
+}
+
+/**
+ * Process an uploaded file before storing it. Raster images are normalized and get
+ * derivatives (see processImage), SVGs are sanitized; other files are stored as they are.
+ * Throws if an image can't be decoded.
+ */
+export async function prepareAssetFile(contents: Buffer, mimeType: string): Promise<PreparedAssetFile> {
+  if (mimeType === 'image/svg+xml') {
+    const svg = Buffer.from(sanitizeSvg(contents.toString('utf8')), 'utf8');
+    return { contents: svg, mimeType, width: null, height: null, derivatives: [] };
+  }
+
+  if (!PROCESSABLE_IMAGE_TYPES.includes(mimeType)) {
+    return { contents, mimeType, width: null, height: null, derivatives: [] };
+  }
+
+  const image = await processImage(contents, mimeType);
+  return {
+    contents: image.contents,
+    mimeType: image.mimeType,
+    width: image.width,
+    height: image.height,
+    derivatives: image.derivatives
+  };
+}
+
+/**
+ * Store a prepared file at `storageRef` and its derivatives at the paths given by
+ * `derivativeRef`. Nothing is left in storage if any file fails to upload.
+ */
+async function storePreparedFile(
+  storageRef: string,
+  derivativeRef: (name: string, mimeType: string) => string,
+  file: PreparedAssetFile,
+  isPublic: boolean
+): Promise<StoredAssetFile> {
+  const storedRefs: string[] = [];
+
+  try {
+    const url = await saveFile(storageRef, file.contents, file.mimeType, isPublic);
+    storedRefs.push(storageRef);
+
+    const derivatives: AssetDerivative[] = [];
+    for (const derivative of file.derivatives) {
+      const ref = derivativeRef(derivative.name, derivative.mimeType);
+      const derivativeUrl = await saveFile(ref, derivative.contents, derivative.mimeType, isPublic);
+      storedRefs.push(ref);
+
+      derivatives.push({
+        name: derivative.name,
+        storageRef: ref,
+        url: derivativeUrl,
+        fileType: derivative.mimeType,
+        fileSize: derivative.contents.length,
+        width: derivative.width,
+        height: derivative.height
+      });
+    }
+
+    return {
+      fileType: file.mimeType,
+      fileSize: file.contents.length,
+      url,
+      storageRef,
+      width: file.width,
+      height: file.height,
+      ...(derivatives.length > 0 && { derivatives: derivatives as unknown as Prisma.InputJsonValue })
+    };
+  } catch (error) {
+    await Promise.all(storedRefs.map(ref => deleteFile(ref).catch(deleteError => {
+      console.warn('Failed to delete file from storage:', deleteError);
+    })));
+    throw error;
+  }
+}
+
+/**
+ * Store an uploaded file by its content hash (see hashFileContents), to be
+ * shared by every asset with the same content; returns the asset's file fields
+ */
+export async function storeSharedAssetFile(contentHash: string, file: PreparedAssetFile, isPublic: boolean): Promise<StoredAssetFile> {
+  const storedFile = await storePreparedFile(
+    getSharedFileRef(contentHash, 'file', file.mimeType),
+    (name, mimeType) => getSharedFileRef(contentHash, name, mimeType),
+    file,
+    isPublic
+  );
+  return { ...storedFile, contentHash };
+}
+
+/**
+ * File fields of the content with this hash if it is already stored, so a new
+ * asset can reference it instead of storing it again; null if it is not stored
+ */
+export async function findSharedAssetFile(contentHash: string): Promise<StoredAssetFile | null> {
+  const existing = await prisma.asset.findFirst({
+    where: { contentHash },
+    select: SHARED_FILE_FIELDS
+  });
+  if (!existing) return null;
+
+  return {
+    ...existing,
+    derivatives: existing.derivatives ?? undefined
+  };
+}
+
+/**
+ * Make shared files public or private, following the boards of the assets that
+ * reference them; call while holding their lock. Files stored per board follow
+ * that board (see setBoardFilesPublic).
+ */
+async function updateSharedFileVisibility(
+  tx: Prisma.TransactionClient,
+  file: { storageRef: string; derivatives?: unknown; contentHash?: string | null }
+): Promise<void> {
+  if (!file.contentHash) return;
+
+  const publicReferences = await tx.asset.count({
+    where: { storageRef: file.storageRef, board: { isPublic: true } }
+  });
+
+  for (const storageRef of getAssetStorageRefs(file)) {
+    try {
+      await setFilePublic(storageRef, publicReferences > 0);
+    } catch (error) {
+      console.warn(`Failed to make ${storageRef} ${publicReferences > 0 ? 'public' : 'private'}:`, error);
+    }
+  }
+}
+
+/**
+ * Make shared files public exactly while an asset on a public board references them
+ * (e.g. after a board's visibility changed)
+ */
+export async function syncSharedFileVisibility(
+  file: { storageRef: string; derivatives?: unknown; contentHash?: string | null }
+): Promise<void> {
+  await withStoredFileLock(file.storageRef, tx => updateSharedFileVisibility(tx, file));
+}
+
+/**
+ * Create an asset on stored files (from findSharedAssetFile or
+ * storeSharedAssetFile). Returns null if there are none, or if they were
+ * released for another asset before this one could reference them; the
+ * content then has to be stored again.
+ */
+export async function createAssetOnFile(
+  storedFile: StoredAssetFile | null,
+  data: { id?: string; boardId: string; fileName: string; uploadedById: string; uploadedAt?: Date }
+): Promise<Asset | null> {
+  if (!storedFile) return null;
+
+  return withStoredFileLock(storedFile.storageRef, async tx => {
+    // Files are released as a whole under the lock, so the original tells whether they remain
+    const file = await openFile(storedFile.storageRef);
+    if (!file) return null;
+    file.stream.destroy();
+
+    const asset = await tx.asset.create({
+      data: { ...storedFile, ...data }
+    });
+    await updateSharedFileVisibility(tx, storedFile);
+    return asset;
+  });
+}
+
+/**
+ * Delete an asset's files unless another asset still references them. Call
+ * after deleting (or failing to create) the asset; returns whether they were deleted.
+ */
+export async function releaseAssetFiles(
+  asset: { storageRef: string; derivatives?: unknown; contentHash?: string | null }
+): Promise<boolean> {
+  return withStoredFileLock(asset.storageRef, async tx => {
+    const references = await tx.asset.count({
+      where: { storageRef: asset.storageRef }
+    });
+    if (references > 0) {
+      // The released asset may have been the one keeping the files public
+      await updateSharedFileVisibility(tx, asset);
+      return false;
+    }
+
+    for (const storageRef of getAssetStorageRefs(asset)) {
+      try {
+        await deleteFile(storageRef);
+      } catch (error) {
+        console.warn('Failed to delete file from storage:', error);
+      }
+    }
+    return true;
+  });
+}
+
+/**
+ * Derivatives recorded on an asset
+ */
+export function getAssetDerivatives(asset: { derivatives?: unknown }): AssetDerivative[] {
+  return Array.isArray(asset.derivatives) ? asset.derivatives as unknown as AssetDerivative[] : [];
+}
+
+/**
+ * Every stored file of an asset: the original and its derivatives
+ */
+export function getAssetStorageRefs(asset: { storageRef: string; derivatives?: unknown }): string[] {
+  return [asset.storageRef, ...getAssetDerivatives(asset).map(derivative => derivative.storageRef)];
+}
@@ -0,0 +1,324 @@
+import { Asset } from '@prisma/client';
+import { prisma } from '../config/database';
+import { deleteFile, getStorageRef, listFiles } from '../storage/assetStorage';
+import { getAssetStorageRefs, releaseAssetFiles } from './assetFiles';
+import { decodeBoardState, detectBoardStateFormat } from './projectState';
+
+/**
+ * Garbage collection of assets and stored files nothing uses any more.
+ *
+ * An asset no element refers to, in the board's current state or in any of its
+ * version snapshots, is marked orphaned; it is purged once it stayed
+ * unreferenced for the grace period, and is unmarked if it is used again.
+ * Stored files without a board, asset, upload session or thumbnail that owns
+ * them (left behind by deleted boards, for example) are deleted once they are
+ * older than the grace period.
+ */
+
+export const ASSET_GC_GRACE_MS = Number(process.env.ASSET_GC_GRACE_DAYS || 7) * 24 * 60 * 60 * 1000;
+
+const GC_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+const BOARD_BATCH_SIZE = 50;
+const VERSION_BATCH_SIZE = 20;
+
+let gcTimer: NodeJS.Timeout | null = null;
+
+export interface OrphanedAsset {
+  id: string;
+  boardId: string;
+  fileName: string;
+  fileSize: number;
+  orphanedAt: Date;
+  purgeAt: Date;
+}
+
+/**
+ * What a collection run did, or would do in a dry run
+ */
+export interface AssetGcReport {
+  dryRun: boolean;
+  boardsScanned: number;
+  // Unreferenced assets still in their grace period
+  orphanedAssets: OrphanedAsset[];
+  purgedAssets: OrphanedAsset[];
+  // Marked assets that are referenced again
+  restoredAssets: number;
+  // Stored files nothing owns
+  deletedFiles: string[];
+}
+
+interface AssetReferences {
+  assetIds: Set<string>;
+  storageRefs: Set<string>;
+  urls: Set<string>;
+}
+
+/**
+ * Collect `assetId` values and file URLs anywhere in project data (see rewriteAssetReferences)
+ */
+function collectReferences(value: unknown, references: AssetReferences, key?: string): void {
+  if (typeof value === 'string') {
+    if (key === 'assetId') {
+      references.assetIds.add(value);
+      return;
+    }
+
+    // Signed URLs saved back by clients still point at the stored file
+    const storageRef = getStorageRef(value);
+    if (storageRef) {
+      references.storageRefs.add(storageRef);
+    } else if (/^https?:\/\//.test(value)) {
+      references.urls.add(value);
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach(entry => collectReferences(entry, references));
+  } else if (value && typeof value === 'object') {
+    Object.entries(value).forEach(([entryKey, entry]) => collectReferences(entry, references, entryKey));
+  }
+}
+
+function isReferenced(asset: Asset, references: AssetReferences): boolean {
+  return references.assetIds.has(asset.id) ||
+    references.urls.has(asset.url) ||
+    getAssetStorageRefs(asset).some(storageRef => references.storageRefs.has(storageRef));
+}
+
+/**
+ * Asset references in a board's current state and all of its versions; null if
+ * any of them can't be read, so nothing is collected from a board by mistake
+ */
+async function findBoardReferences(boardId: string, yDocState: Uint8Array | null): Promise<AssetReferences | null> {
+  const references: AssetReferences = { assetIds: new Set(), storageRefs: new Set(), urls: new Set() };
+
+  const addState = (state: Uint8Array | null): boolean => {
+    if (detectBoardStateFormat(state) === 'unknown') {
+      return false;
+    }
+    collectReferences(decodeBoardState(state), references);
+    return true;
+  };
+
+  try {
+    if (!addState(yDocState)) return null;
+
+    let cursor: string | undefined;
+    for (;;) {
+      const versions = await prisma.boardVersion.findMany({
+        where: { boardId },
+        take: VERSION_BATCH_SIZE,
+        ...(cursor && { skip: 1, cursor: { id: cursor } }),
+        orderBy: { id: 'asc' },
+        select: { id: true, yDocState: true }
+      });
+      if (versions.length === 0) break;
+      cursor = versions[versions.length - 1].id;
+
+      if (!versions.every(version => addState(version.yDocState))) return null;
+    }
+  } catch (error) {
+    console.error(`Error reading board ${boardId} for asset collection:`, error);
+    return null;
+  }
+
+  return references;
+}
+
+/**
+ * Delete (or, in a dry run, list) stored files under `prefix` that are older
+ * than the grace period and that `isOwned` does not claim
+ */
+async function sweepFiles(
+  prefix: string,
+  isOwned: (key: string) => Promise<boolean>,
+  report: AssetGcReport,
+  now: Date
+): Promise<void> {
+  const cutoff = now.getTime() - ASSET_GC_GRACE_MS;
+
+  for await (const file of listFiles(prefix)) {
+    if (file.updatedAt.getTime() > cutoff || await isOwned(file.key)) {
+      continue;
+    }
+
+    report.deletedFiles.push(file.key);
+    if (!report.dryRun) {
+      try {
+        await deleteFile(file.key);
+      } catch (error) {
+        console.warn(`Failed to delete orphaned file ${file.key}:`, error);
+      }
+    }
+  }
+}
+
+/**
+ * Caches an ownership check per key segment (`boards/<id>/...`), since listings
+ * come in key order
+ */
+function ownedBySegment(exists: (segment: string) => Promise<boolean>): (key: string) => Promise<boolean> {
+  let lastSegment: string | null = null;
+  let lastResult = false;
+
+  return async key => {
+    const segment = key.split('/')[1] || '';
+    if (segment !== lastSegment) {
+      lastSegment = segment;
+      lastResult = await exists(segment);
+    }
+    return lastResult;
+  };
+}
+
+async function collectBoard(
+  board: { id: string; yDocState: Uint8Array | null; thumbnail: string | null },
+  report: AssetGcReport,
+  now: Date
+): Promise<void> {
+  report.boardsScanned++;
+
+  const assets = await prisma.asset.findMany({ where: { boardId: board.id } });
+  const references = assets.length > 0 ? await findBoardReferences(board.id, board.yDocState) : null;
+
+  // Files of the board's remaining assets and its thumbnails are owned
+  const ownedRefs = new Set<string>();
+
+  for (const asset of assets) {
+    if (!references || isReferenced(asset, references)) {
+      getAssetStorageRefs(asset).forEach(storageRef => ownedRefs.add(storageRef));
+
+      if (references && asset.orphanedAt) {
+        report.restoredAssets++;
+        if (!report.dryRun) {
+          await prisma.asset.update({ where: { id: asset.id }, data: { orphanedAt: null } });
+        }
+      }
+      continue;
+    }
+
+    const orphanedAt = asset.orphanedAt || now;
+    const orphan: OrphanedAsset = {
+      id: asset.id,
+      boardId: board.id,
+      fileName: asset.fileName,
+      fileSize: asset.fileSize,
+      orphanedAt,
+      purgeAt: new Date(orphanedAt.getTime() + ASSET_GC_GRACE_MS)
+    };
+
+    if (orphan.purgeAt > now) {
+      report.orphanedAssets.push(orphan);
+      getAssetStorageRefs(asset).forEach(storageRef => ownedRefs.add(storageRef));
+      if (!report.dryRun && !asset.orphanedAt) {
+        await prisma.asset.update({ where: { id: asset.id }, data: { orphanedAt: now } });
+      }
+      continue;
+    }
+
+    report.purgedAssets.push(orphan);
+    if (report.dryRun) {
+      getAssetStorageRefs(asset).forEach(storageRef => ownedRefs.add(storageRef));
+    } else {
+      // Files shared with other assets stay (see releaseAssetFiles)
+      await prisma.asset.delete({ where: { id: asset.id } });
+      await releaseAssetFiles(asset);
+    }
+  }
+
+  const versions = await prisma.boardVersion.findMany({
+    where: { boardId: board.id },
+    select: { thumbnail: true }
+  });
+  [board.thumbnail, ...versions.map(version => version.thumbnail)].forEach(url => {
+    const storageRef = url ? getStorageRef(url) : null;
+    if (storageRef) {
+      ownedRefs.add(storageRef);
+    }
+  });
+
+  await sweepFiles(`boards/${board.id}/`, async key => ownedRefs.has(key), report, now);
+}
+
+function createReport(dryRun: boolean): AssetGcReport {
+  return { dryRun, boardsScanned: 0, orphanedAssets: [], purgedAssets: [], restoredAssets: 0, deletedFiles: [] };
+}
+
+/**
+ * Collect the orphaned assets and files of one board
+ */
+export async function collectBoardAssets(boardId: string, dryRun: boolean = false): Promise<AssetGcReport> {
+  const report = createReport(dryRun);
+  const board = await prisma.board.findUnique({
+    where: { id: boardId },
+    select: { id: true, yDocState: true, thumbnail: true }
+  });
+
+  if (board) {
+    await collectBoard(board, report, new Date());
+  }
+  return report;
+}
+
+/**
+ * Collect orphaned assets on every board, then stored files of deleted boards,
+ * unreferenced shared uploads and removed upload sessions
+ */
+export async function collectOrphanedAssets(dryRun: boolean = false): Promise<AssetGcReport> {
+  const report = createReport(dryRun);
+  const now = new Date();
+
+  let cursor: string | undefined;
+  for (;;) {
+    const boards = await prisma.board.findMany({
+      take: BOARD_BATCH_SIZE,
+      ...(cursor && { skip: 1, cursor: { id: cursor } }),
+      orderBy: { id: 'asc' },
+      select: { id: true, yDocState: true, thumbnail: true }
+    });
+    if (boards.length === 0) break;
+    cursor = boards[boards.length - 1].id;
+
+    for (const board of boards) {
+      await collectBoard(board, report, now);
+    }
+  }
+
+  await sweepFiles('boards/', ownedBySegment(async boardId =>
+    await prisma.board.count({ where: { id: boardId } }) > 0
+  ), report, now);
+  await sweepFiles('blobs/', ownedBySegment(async contentHash =>
+    await prisma.asset.count({ where: { contentHash } }) > 0
+  ), report, now);
+  await sweepFiles('uploads/', ownedBySegment(async sessionId =>
+    await prisma.uploadSession.count({ where: { id: sessionId } }) > 0
+  ), report, now);
+
+  return report;
+}
+
+/**
+ * Periodically collect orphaned assets and files
+ */
+export function startAssetGc(): void {
+  if (gcTimer) return;
+
+  gcTimer = setInterval(async () => {
+    try {
+      const report = await collectOrphanedAssets();
+      console.log(
+        `🧹 Asset collection: ${report.purgedAssets.length} asset(s) purged, ` +
+        `${report.orphanedAssets.length} orphaned, ${report.deletedFiles.length} file(s) deleted`
+      );
+    } catch (error) {
+      console.error('Error collecting orphaned assets:', error);
+    }
+  }, GC_INTERVAL_MS);
+  gcTimer.unref();
+}
+
+export function stopAssetGc(): void {
+  if (gcTimer) {
+    clearInterval(gcTimer);
+    gcTimer = null;
+  }
+}
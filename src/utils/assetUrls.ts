@@ -0,0 +1,149 @@
+import { Asset } from '@prisma/client';
+import { prisma } from '../config/database';
+import { Element, ProjectData } from '../types';
+import { getSignedFileUrl, getStorageRef, setFilePublic } from '../storage/assetStorage';
+import { findElementAsset } from './boardImages';
+import { getAssetDerivatives, getAssetStorageRefs, syncSharedFileVisibility } from './assetFiles';
+
+/**
+ * Readable URLs for stored files. Files of private boards are never public;
+ * clients get short-lived signed URLs, created when the board is read. Public
+ * boards keep their files public and use the permanent URLs.
+ */
+
+// Lifetime of signed URLs handed to clients
+export const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+/**
+ * Creates readable URLs for one board, signing each stored file once
+ */
+export function createUrlSigner(isPublic: boolean): (url: string) => Promise<string> {
+  const signed = new Map<string, Promise<string>>();
+
+  return url => {
+    const storageRef = isPublic ? null : getStorageRef(url);
+    if (!storageRef) {
+      // Public files and links outside our storage are readable as they are
+      return Promise.resolve(url);
+    }
+
+    if (!signed.has(storageRef)) {
+      signed.set(storageRef, getSignedFileUrl(storageRef, SIGNED_URL_TTL_SECONDS).catch(error => {
+        console.error(`Error signing URL for ${storageRef}:`, error);
+        return url;
+      }));
+    }
+    return signed.get(storageRef)!;
+  };
+}
+
+/**
+ * Assets with `url` (and derivative URLs) replaced by URLs the client can read
+ */
+export async function withReadableAssetUrls<T extends Pick<Asset, 'url' | 'derivatives'>>(assets: T[], isPublic: boolean): Promise<T[]> {
+  const sign = createUrlSigner(isPublic);
+
+  return Promise.all(assets.map(async asset => {
+    const derivatives = getAssetDerivatives(asset);
+    return {
+      ...asset,
+      url: await sign(asset.url),
+      ...(derivatives.length > 0 && {
+        derivatives: await Promise.all(derivatives.map(async derivative => ({
+          ...derivative,
+          url: await sign(derivative.url)
+        })))
+      })
+    };
+  }));
+}
+
+/**
+ * Boards (or versions of one board) with `thumbnail` replaced by a URL the client can read
+ */
+export async function withReadableThumbnails<T extends { thumbnail: string | null }>(
+  items: T[],
+  isPublic: (item: T) => boolean
+): Promise<T[]> {
+  return Promise.all(items.map(async item => ({
+    ...item,
+    thumbnail: item.thumbnail && await createUrlSigner(isPublic(item))(item.thumbnail)
+  })));
+}
+
+/**
+ * Project data with image sources replaced by URLs the client can read.
+ * Elements that reference a board asset (by assetId, or by its URL) are pointed
+ * at that asset, so a signed URL saved back by a client is refreshed on the next read.
+ */
+export async function withReadableProjectUrls(projectData: ProjectData, assets: Asset[], isPublic: boolean): Promise<ProjectData> {
+  const sign = createUrlSigner(isPublic);
+
+  const resolveElements = (elements: Element[]) => Promise.all(elements.map(async element => {
+    const src = element.properties?.src;
+    if (element.type !== 'image' || typeof src !== 'string') {
+      return element;
+    }
+
+    const asset = findElementAsset(element, assets);
+    return {
+      ...element,
+      properties: { ...element.properties, src: await sign(asset ? asset.url : src) }
+    };
+  }));
+
+  return {
+    ...projectData,
+    elements: await resolveElements(projectData.elements || []),
+    pages: await Promise.all((projectData.pages || []).map(async page => ({
+      ...page,
+      elements: await resolveElements(page.elements || [])
+    })))
+  };
+}
+
+/**
+ * Make every stored file of a board (assets and thumbnails) public or private,
+ * following the board's visibility. Shared files follow every board that uses them
+ * (see syncSharedFileVisibility).
+ */
+export async function setBoardFilesPublic(boardId: string, isPublic: boolean): Promise<void> {
+  const board = await prisma.board.findUnique({
+    where: { id: boardId },
+    select: {
+      thumbnail: true,
+      assets: { select: { storageRef: true, derivatives: true, contentHash: true } },
+      versions: { select: { thumbnail: true } }
+    }
+  });
+  if (!board) return;
+
+  const storageRefs = new Set<string>();
+  const sharedFiles = new Map<string, (typeof board.assets)[number]>();
+  for (const asset of board.assets) {
+    if (asset.contentHash) {
+      sharedFiles.set(asset.storageRef, asset);
+    } else {
+      getAssetStorageRefs(asset).forEach(storageRef => storageRefs.add(storageRef));
+    }
+  }
+
+  [board.thumbnail, ...board.versions.map(version => version.thumbnail)].forEach(url => {
+    const storageRef = url ? getStorageRef(url) : null;
+    if (storageRef) {
+      storageRefs.add(storageRef);
+    }
+  });
+
+  for (const storageRef of storageRefs) {
+    try {
+      await setFilePublic(storageRef, isPublic);
+    } catch (error) {
+      console.warn(`Failed to make ${storageRef} ${isPublic ? 'public' : 'private'}:`, error);
+    }
+  }
+
+  for (const sharedFile of sharedFiles.values()) {
+    await syncSharedFileVisibility(sharedFile);
+  }
+}
@@ -0,0 +1,162 @@
+import { prisma } from '../config/database';
+import { convertBoardStateToYjs } from './projectState';
+import { createVersionThumbnail } from './thumbnails';
+import { selectExpiredVersions } from './versionRetention';
+
+/**
+ * Automatic version snapshots. A board is snapshotted after a period of live
+ * editing and after explicit saves. Automatic snapshots are thinned out as they
+ * age; versions named by users are never removed.
+ */
+
+export type VersionKind = 'named' | 'auto';
+
+// While a board is edited, it is snapshotted at most this often
+export const AUTO_VERSION_INTERVAL_MS = Number(process.env.AUTO_VERSION_INTERVAL_MINUTES || 10) * 60 * 1000;
+
+// Snapshots are thinned out once a day (see selectExpiredVersions)
+const RETENTION_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+interface ScheduledSnapshot {
+  timer: NodeJS.Timeout;
+  dueAt: number;
+}
+
+const scheduledSnapshots = new Map<string, ScheduledSnapshot>();
+
+// Boards being snapshotted, and boards that asked for another snapshot meanwhile
+const snapshottingBoards = new Set<string>();
+const staleBoards = new Set<string>();
+
+let retentionTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Apply the retention policy to a board's automatic snapshots; returns how many
+ * were removed. Their thumbnails are collected with other orphaned files.
+ */
+export async function pruneAutoVersions(boardId: string): Promise<number> {
+  const versions = await prisma.boardVersion.findMany({
+    where: { boardId, kind: 'auto' },
+    select: { id: true, createdAt: true }
+  });
+
+  const expired = selectExpiredVersions(versions);
+  if (expired.length === 0) return 0;
+
+  const { count } = await prisma.boardVersion.deleteMany({
+    where: { id: { in: expired }, kind: 'auto' }
+  });
+  return count;
+}
+
+/**
+ * Snapshot the board's stored state as an automatic version, unless it is
+ * unchanged since the latest version
+ */
+export async function createAutoVersion(boardId: string): Promise<void> {
+  if (snapshottingBoards.has(boardId)) {
+    staleBoards.add(boardId);
+    return;
+  }
+
+  snapshottingBoards.add(boardId);
+  try {
+    const board = await prisma.board.findUnique({
+      where: { id: boardId },
+      select: { yDocState: true }
+    });
+    if (!board?.yDocState) return;
+
+    const yDocState = convertBoardStateToYjs(board.yDocState) || Buffer.from(board.yDocState);
+
+    const latest = await prisma.boardVersion.findFirst({
+      where: { boardId },
+      orderBy: { createdAt: 'desc' },
+      select: { yDocState: true }
+    });
+    if (latest && Buffer.from(latest.yDocState).equals(yDocState)) return;
+
+    let thumbnail: string | null = null;
+    try {
+      thumbnail = await createVersionThumbnail(boardId, yDocState);
+    } catch (error) {
+      console.error('Error generating version thumbnail:', error);
+    }
+
+    await prisma.boardVersion.create({
+      data: {
+        boardId,
+        kind: 'auto',
+        yDocState,
+        thumbnail
+      }
+    });
+
+    await pruneAutoVersions(boardId);
+  } catch (error) {
+    console.error(`Error creating automatic version of board ${boardId}:`, error);
+  } finally {
+    snapshottingBoards.delete(boardId);
+    if (staleBoards.delete(boardId)) {
+      scheduleAutoVersion(boardId, 0);
+    }
+  }
+}
+
+/**
+ * Snapshot a board after `delayMs`. An earlier pending snapshot is kept, so
+ * continuous edits still produce a snapshot every `delayMs`.
+ */
+export function scheduleAutoVersion(boardId: string, delayMs: number = AUTO_VERSION_INTERVAL_MS): void {
+  const dueAt = Date.now() + delayMs;
+  const scheduled = scheduledSnapshots.get(boardId);
+
+  if (scheduled) {
+    if (scheduled.dueAt <= dueAt) return;
+    clearTimeout(scheduled.timer);
+  }
+
+  const timer = setTimeout(() => {
+    scheduledSnapshots.delete(boardId);
+    createAutoVersion(boardId);
+  }, delayMs);
+  // Pending snapshots never keep the process alive
+  timer.unref();
+
+  scheduledSnapshots.set(boardId, { timer, dueAt });
+}
+
+/**
+ * Periodically thin out the automatic snapshots of every board, including
+ * boards that are no longer edited
+ */
+export function startVersionRetention(): void {
+  if (retentionTimer) return;
+
+  retentionTimer = setInterval(async () => {
+    try {
+      const boards = await prisma.boardVersion.groupBy({
+        by: ['boardId'],
+        where: { kind: 'auto' }
+      });
+
+      let removed = 0;
+      for (const { boardId } of boards) {
+        removed += await pruneAutoVersions(boardId);
+      }
+      if (removed > 0) {
+        console.log(`🧹 Removed ${removed} expired automatic version(s)`);
+      }
+    } catch (error) {
+      console.error('Error applying version retention:', error);
+    }
+  }, RETENTION_INTERVAL_MS);
+  retentionTimer.unref();
+}
+
+export function stopVersionRetention(): void {
+  if (retentionTimer) {
+    clearInterval(retentionTimer);
+    retentionTimer = null;
+  }
+}
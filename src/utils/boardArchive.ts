@@ -0,0 +1,274 @@
+import JSZip from 'jszip';
+import { ProjectData } from '../types';
+import type { VersionKind } from './autoVersions';
+
+/**
+ * Portable board archives (.sowntra): a zip with the board's metadata, project data,
+ * version snapshots, comments and asset files, used to move boards between
+ * environments or accounts.
+ *
+ * Layout:
+ *   manifest.json          format info, board metadata, asset/version/comment records
+ *   project.json           current ProjectData
+ *   versions/<id>.json     ProjectData of each version snapshot
+ *   assets/<id>            asset file contents
+ */
+
+export const ARCHIVE_FORMAT = 'sowntra-board';
+export const ARCHIVE_FORMAT_VERSION = 1;
+export const ARCHIVE_EXTENSION = 'sowntra';
+
+// Limits on what an uploaded archive may expand to
+const MAX_ARCHIVE_ENTRY_BYTES = 50 * 1024 * 1024;
+const MAX_ARCHIVE_TOTAL_BYTES = 500 * 1024 * 1024;
+
+export interface ArchiveAsset {
+  id: string;
+  fileName: string;
+  fileType: string;
+  url: string;
+  uploadedAt: string;
+  contents: Buffer;
+}
+
+export interface ArchiveVersion {
+  id: string;
+  versionName: string | null;
+  kind: VersionKind;
+  createdAt: string;
+  projectData: ProjectData;
+}
+
+export interface ArchiveComment {
+  id: string;
+  parentId: string | null;
+  elementId: string | null;
+  content: string;
+  positionX: number | null;
+  positionY: number | null;
+  resolved: boolean;
+  createdAt: string;
+  author: {
+    email: string;
+    name: string | null;
+  };
+}
+
+export interface BoardArchive {
+  board: {
+    title: string;
+    description: string | null;
+    createdAt: string;
+  };
+  projectData: ProjectData;
+  versions: ArchiveVersion[];
+  comments: ArchiveComment[];
+  assets: ArchiveAsset[];
+}
+
+/**
+ * Pack a board into a .sowntra zip
+ */
+export async function buildBoardArchive(archive: BoardArchive): Promise<Buffer> {
+  const zip = new JSZip();
+
+  zip.file('manifest.json', JSON.stringify({
+    format: ARCHIVE_FORMAT,
+    formatVersion: ARCHIVE_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    board: archive.board,
+    assets: archive.assets.map(({ contents, ...asset }) => ({ ...asset, fileSize: contents.length })),
+    versions: archive.versions.map(({ projectData, ...version }) => version),
+    comments: archive.comments
+  }, null, 2));
+
+  zip.file('project.json', JSON.stringify(archive.projectData));
+
+  archive.versions.forEach(version => {
+    zip.file(`versions/${version.id}.json`, JSON.stringify(version.projectData));
+  });
+
+  archive.assets.forEach(asset => {
+    // Already-compressed image formats gain nothing from deflate
+    zip.file(`assets/${asset.id}`, asset.contents, { compression: 'STORE' });
+  });
+
+  return zip.generateAsync({
+    type: 'nodebuffer',
+    compression: 'DEFLATE',
+    compressionOptions: { level: 6 }
+  });
+}
+
+/**
+ * Read one zip entry, refusing entries that expand beyond the size limits
+ */
+async function readEntry(zip: JSZip, path: string, budget: { remaining: number }): Promise<Buffer> {
+  const entry = zip.file(path);
+  if (!entry) {
+    throw new Error(`Archive is missing ${path}`);
+  }
+
+  const limit = Math.min(MAX_ARCHIVE_ENTRY_BYTES, budget.remaining);
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  await new Promise<void>((resolve, reject) => {
+    const stream = entry.nodeStream('nodebuffer');
+    stream.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        stream.pause();
+        stream.removeAllListeners('data');
+        reject(new Error(`Archive entry ${path} is too large`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('end', () => resolve());
+    stream.on('error', error => reject(error));
+  });
+
+  budget.remaining -= size;
+  return Buffer.concat(chunks);
+}
+
+async function readJsonEntry(zip: JSZip, path: string, budget: { remaining: number }): Promise<any> {
+  const contents = await readEntry(zip, path, budget);
+  try {
+    return JSON.parse(contents.toString('utf8'));
+  } catch (error) {
+    throw new Error(`Archive entry ${path} is not valid JSON`);
+  }
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+function optionalString(value: unknown): string | null {
+  return isString(value) ? value : null;
+}
+
+function optionalNumber(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Unpack a .sowntra zip. Project data is returned as stored; callers migrate and validate it.
+ * Throws for files that are not valid archives; the message says what is wrong.
+ */
+export async function readBoardArchive(contents: Buffer): Promise<BoardArchive> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(contents);
+  } catch (error) {
+    throw new Error('File is not a zip archive');
+  }
+
+  const budget = { remaining: MAX_ARCHIVE_TOTAL_BYTES };
+  const manifest = await readJsonEntry(zip, 'manifest.json', budget);
+
+  if (!manifest || manifest.format !== ARCHIVE_FORMAT) {
+    throw new Error('File is not a Sowntra board archive');
+  }
+  if (!Number.isInteger(manifest.formatVersion) || manifest.formatVersion > ARCHIVE_FORMAT_VERSION) {
+    throw new Error(`Unsupported archive format version: ${manifest.formatVersion}`);
+  }
+
+  const board = manifest.board || {};
+  const now = new Date().toISOString();
+  // Ids become file names; anything else could point outside the archive's folders
+  const isSafeId = (value: unknown): value is string => isString(value) && /^[\w-]+$/.test(value);
+
+  const assets: ArchiveAsset[] = [];
+  for (const asset of Array.isArray(manifest.assets) ? manifest.assets : []) {
+    if (!isSafeId(asset?.id) || !isString(asset.fileName) || !isString(asset.fileType)) {
+      throw new Error('Archive contains an invalid asset record');
+    }
+    assets.push({
+      id: asset.id,
+      fileName: asset.fileName,
+      fileType: asset.fileType,
+      url: isString(asset.url) ? asset.url : '',
+      uploadedAt: isString(asset.uploadedAt) ? asset.uploadedAt : now,
+      contents: await readEntry(zip, `assets/${asset.id}`, budget)
+    });
+  }
+
+  const versions: ArchiveVersion[] = [];
+  for (const version of Array.isArray(manifest.versions) ? manifest.versions : []) {
+    if (!isSafeId(version?.id)) {
+      throw new Error('Archive contains an invalid version record');
+    }
+    versions.push({
+      id: version.id,
+      versionName: optionalString(version.versionName),
+      // Archives from before automatic versions only hold named ones
+      kind: version.kind === 'auto' ? 'auto' : 'named',
+      createdAt: isString(version.createdAt) ? version.createdAt : now,
+      projectData: await readJsonEntry(zip, `versions/${version.id}.json`, budget)
+    });
+  }
+
+  const comments: ArchiveComment[] = [];
+  for (const comment of Array.isArray(manifest.comments) ? manifest.comments : []) {
+    if (!isString(comment?.id) || !isString(comment.content) || !isString(comment.author?.email)) {
+      throw new Error('Archive contains an invalid comment record');
+    }
+    comments.push({
+      id: comment.id,
+      parentId: optionalString(comment.parentId),
+      elementId: optionalString(comment.elementId),
+      content: comment.content,
+      positionX: optionalNumber(comment.positionX),
+      positionY: optionalNumber(comment.positionY),
+      resolved: comment.resolved === true,
+      createdAt: isString(comment.createdAt) ? comment.createdAt : now,
+      author: {
+        email: comment.author.email,
+        name: optionalString(comment.author.name)
+      }
+    });
+  }
+
+  return {
+    board: {
+      title: isString(board.title) ? board.title : 'Imported board',
+      description: optionalString(board.description),
+      createdAt: isString(board.createdAt) ? board.createdAt : now
+    },
+    projectData: await readJsonEntry(zip, 'project.json', budget),
+    versions,
+    comments,
+    assets
+  };
+}
+
+/**
+ * Point asset references at re-uploaded copies: `assetId` values found in
+ * `assetIds` and any string equal to an old asset URL are replaced.
+ */
+export function rewriteAssetReferences<T>(value: T, assetIds: Map<string, string>, assetUrls: Map<string, string>): T {
+  const rewrite = (item: any, key?: string): any => {
+    if (isString(item)) {
+      if (key === 'assetId' && assetIds.has(item)) {
+        return assetIds.get(item);
+      }
+      return assetUrls.get(item) ?? item;
+    }
+    if (Array.isArray(item)) {
+      return item.map(entry => rewrite(entry));
+    }
+    if (item && typeof item === 'object') {
+      const result: Record<string, any> = {};
+      Object.entries(item).forEach(([entryKey, entry]) => {
+        result[entryKey] = rewrite(entry, entryKey);
+      });
+      return result;
+    }
+    return item;
+  };
+
+  return rewrite(value);
+}
@@ -0,0 +1,70 @@
+import { Asset } from '@prisma/client';
+import { Element } from '../types';
+import { readFile } from '../storage/assetStorage';
+import { ExportPage } from './svgRenderer';
+
+/**
+ * Resolving image elements to board assets when rendering boards (exports, thumbnails)
+ */
+
+export function findElementAsset(element: Element, assets: Asset[]): Asset | undefined {
+  const { assetId, src } = element.properties || {};
+  return assets.find(asset => asset.id === assetId) || assets.find(asset => asset.url === src);
+}
+
+/**
+ * Download the board assets used by image elements as data URIs
+ */
+export async function loadEmbeddedAssets(pages: ExportPage[], assets: Asset[]): Promise<Map<string, string>> {
+  const usedAssets = new Map<string, Asset>();
+  pages.forEach(page => {
+    page.elements
+      .filter(element => element.type === 'image')
+      .forEach(element => {
+        const asset = findElementAsset(element, assets);
+        if (asset) {
+          usedAssets.set(asset.id, asset);
+        }
+      });
+  });
+
+  const embedded = new Map<string, string>();
+
+  await Promise.all(Array.from(usedAssets.values()).map(async asset => {
+    try {
+      const contents = await readFile(asset.storageRef);
+      embedded.set(asset.id, `data:${asset.fileType};base64,${contents.toString('base64')}`);
+    } catch (error) {
+      console.warn(`Failed to embed asset ${asset.id}:`, error);
+    }
+  }));
+
+  return embedded;
+}
+
+/**
+ * Map image elements to board assets (embedded or linked). Sources that are not
+ * board assets are never fetched; they are linked as-is when they are http(s)
+ * or image data URIs, unless only embedded images can be used (rasterizing).
+ */
+export function createImageResolver(
+  assets: Asset[],
+  embedded: Map<string, string>,
+  allowLinks: boolean = true
+): (element: Element) => string | null {
+  return element => {
+    const asset = findElementAsset(element, assets);
+    if (asset) {
+      return embedded.get(asset.id) || (allowLinks ? asset.url : null);
+    }
+
+    const src = element.properties?.src;
+    if (typeof src !== 'string') {
+      return null;
+    }
+    if (/^data:image\//i.test(src)) {
+      return src;
+    }
+    return allowLinks && /^https?:\/\//i.test(src) ? src : null;
+  };
+}
@@ -0,0 +1,69 @@
+import { getImageInfo } from './imageInfo';
+
+/**
+ * Detecting the real type of uploaded files from their contents, instead of
+ * trusting the type declared by the client
+ */
+
+// SVG is text: sniff the start of the document for the root element
+const SVG_SNIFF_BYTES = 4096;
+
+// ISO base media brands of still images (HEIF, AVIF), which aren't supported
+const STILL_IMAGE_BRANDS = new Set(['heic', 'heix', 'mif1', 'msf1', 'avif', 'avis']);
+
+const MIME_TYPE_ALIASES: Record<string, string> = {
+  'image/jpg': 'image/jpeg',
+  'image/pjpeg': 'image/jpeg',
+  'image/x-png': 'image/png'
+};
+
+/**
+ * Lowercased MIME type without parameters, with common aliases resolved
+ */
+export function normalizeMimeType(mimeType: string): string {
+  const type = mimeType.split(';')[0].trim().toLowerCase();
+  return MIME_TYPE_ALIASES[type] || type;
+}
+
+function isSvg(contents: Buffer): boolean {
+  let text = contents.subarray(0, SVG_SNIFF_BYTES).toString('utf8').replace(/^﻿/, '');
+
+  // Skip the XML declaration, comments, processing instructions and doctype before the root element
+  const prolog = /^\s*(<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE[^>[]*(\[[\s\S]*?\])?\s*>)/i;
+  let match: RegExpExecArray | null;
+  while ((match = prolog.exec(text)) !== null) {
+    text = text.slice(match[0].length);
+  }
+
+  return /^\s*<svg[\s>/]/i.test(text) || /^\s*<[\w-]+:svg[\s>/]/i.test(text);
+}
+
+/**
+ * MIME type detected from the file contents (magic bytes); null if unknown
+ */
+export function detectFileType(contents: Buffer): string | null {
+  const image = getImageInfo(contents);
+  if (image) {
+    return image.mimeType;
+  }
+
+  if (contents.toString('ascii', 0, 5) === '%PDF-') {
+    return 'application/pdf';
+  }
+
+  // ISO base media (MP4, QuickTime): a 'ftyp' box with the major brand
+  if (contents.toString('ascii', 4, 8) === 'ftyp') {
+    const brand = contents.toString('ascii', 8, 12);
+    if (brand === 'qt  ') {
+      return 'video/quicktime';
+    }
+    return STILL_IMAGE_BRANDS.has(brand) ? null : 'video/mp4';
+  }
+
+  // Matroska/WebM: EBML header
+  if (contents.length >= 4 && contents.readUInt32BE(0) === 0x1a45dfa3) {
+    return 'video/webm';
+  }
+
+  return isSvg(contents) ? 'image/svg+xml' : null;
+}
@@ -0,0 +1,97 @@
+/**
+ * Read basic information from image file headers without decoding the image
+ */
+
+export interface ImageInfo {
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+function readPng(buffer: Buffer): ImageInfo | null {
+  // Signature, then the IHDR chunk with width and height
+  if (buffer.length < 24 || buffer.readUInt32BE(0) !== 0x89504e47 || buffer.toString('ascii', 12, 16) !== 'IHDR') {
+    return null;
+  }
+  return { mimeType: 'image/png', width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+}
+
+function readJpeg(buffer: Buffer): ImageInfo | null {
+  if (buffer.length < 4 || buffer[0] !== 0xff || buffer[1] !== 0xd8) {
+    return null;
+  }
+
+  // Walk the segments until a start-of-frame marker, which holds the dimensions
+  let offset = 2;
+  while (offset + 9 < buffer.length) {
+    if (buffer[offset] !== 0xff) {
+      return null;
+    }
+
+    const marker = buffer[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+
+    const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isStartOfFrame) {
+      return {
+        mimeType: 'image/jpeg',
+        height: buffer.readUInt16BE(offset + 5),
+        width: buffer.readUInt16BE(offset + 7)
+      };
+    }
+
+    offset += 2 + buffer.readUInt16BE(offset + 2);
+  }
+
+  return null;
+}
+
+function readGif(buffer: Buffer): ImageInfo | null {
+  const signature = buffer.toString('ascii', 0, 6);
+  if (buffer.length < 10 || (signature !== 'GIF87a' && signature !== 'GIF89a')) {
+    return null;
+  }
+  return { mimeType: 'image/gif', width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+}
+
+function readWebp(buffer: Buffer): ImageInfo | null {
+  if (buffer.length < 30 || buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WEBP') {
+    return null;
+  }
+
+  switch (buffer.toString('ascii', 12, 16)) {
+    case 'VP8 ':
+      return {
+        mimeType: 'image/webp',
+        width: buffer.readUInt16LE(26) & 0x3fff,
+        height: buffer.readUInt16LE(28) & 0x3fff
+      };
+    case 'VP8L': {
+      const bits = buffer.readUInt32LE(21);
+      return { mimeType: 'image/webp', width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    case 'VP8X':
+      return {
+        mimeType: 'image/webp',
+        width: buffer.readUIntLE(24, 3) + 1,
+        height: buffer.readUIntLE(27, 3) + 1
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Detect a PNG, JPEG, GIF or WebP image and its pixel size; null for anything else
+ */
+export function getImageInfo(buffer: Buffer): ImageInfo | null {
+  try {
+    return readPng(buffer) || readJpeg(buffer) || readGif(buffer) || readWebp(buffer);
+  } catch (error) {
+    // Truncated headers
+    return null;
+  }
+}
@@ -0,0 +1,120 @@
+import sharp from 'sharp';
+
+/**
+ * Processing of uploaded images: orientation and metadata are normalized, and
+ * resized copies are generated so clients can lay out and preview boards
+ * without downloading full-size images.
+ */
+
+export const PROCESSABLE_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+
+// Larger images are rejected rather than decoded
+const MAX_INPUT_PIXELS = 100 * 1000 * 1000;
+
+const JPEG_QUALITY = 90;
+const WEBP_QUALITY = 82;
+
+interface DerivativeSpec {
+  name: string;
+  // Longest side; omitted to keep the full size
+  maxSize?: number;
+  // Convert to WebP instead of keeping the original format
+  webp?: boolean;
+}
+
+const DERIVATIVE_SPECS: DerivativeSpec[] = [
+  { name: 'thumbnail', maxSize: 320 },
+  { name: 'medium', maxSize: 1280 },
+  { name: 'webp', webp: true }
+];
+
+export interface ProcessedImageFile {
+  contents: Buffer;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+export interface DerivativeImage extends ProcessedImageFile {
+  name: string;
+}
+
+export interface ProcessedImage extends ProcessedImageFile {
+  derivatives: DerivativeImage[];
+}
+
+/**
+ * Encode in the original format where possible; GIF frames become PNG
+ */
+function encode(image: sharp.Sharp, mimeType: string): { image: sharp.Sharp; mimeType: string } {
+  switch (mimeType) {
+    case 'image/jpeg':
+      return { image: image.jpeg({ quality: JPEG_QUALITY }), mimeType };
+    case 'image/webp':
+      return { image: image.webp({ quality: WEBP_QUALITY }), mimeType };
+    case 'image/png':
+      return { image: image.png(), mimeType };
+    default:
+      return { image: image.png(), mimeType: 'image/png' };
+  }
+}
+
+async function toFile(image: sharp.Sharp, mimeType: string): Promise<ProcessedImageFile> {
+  const { data, info } = await image.toBuffer({ resolveWithObject: true });
+  return { contents: data, mimeType, width: info.width, height: info.height };
+}
+
+/**
+ * Normalize an uploaded image and generate its derivatives.
+ *
+ * The original is rotated upright (EXIF orientation) and re-encoded without
+ * EXIF/GPS, XMP or IPTC metadata; images without such metadata are kept as
+ * they are. Animated GIFs are kept as uploaded, their derivatives show the
+ * first frame. Resized derivatives are only made for images larger than their
+ * size, and WebP uploads get no WebP copy.
+ * Throws if the data can't be decoded as an image.
+ */
+export async function processImage(contents: Buffer, mimeType: string): Promise<ProcessedImage> {
+  const input = () => sharp(contents, { limitInputPixels: MAX_INPUT_PIXELS });
+  const metadata = await input().metadata();
+
+  if (!metadata.width || !metadata.height) {
+    throw new Error('Image has no dimensions');
+  }
+
+  // Orientations 5-8 swap width and height
+  const swapsSides = (metadata.orientation || 1) >= 5;
+  const width = swapsSides ? metadata.height : metadata.width;
+  const height = swapsSides ? metadata.width : metadata.height;
+  const longestSide = Math.max(width, height);
+
+  const hasMetadata = Boolean(metadata.exif || metadata.xmp || metadata.iptc) || (metadata.orientation || 1) > 1;
+  const keepOriginal = !hasMetadata || mimeType === 'image/gif';
+
+  const original: ProcessedImageFile = keepOriginal
+    ? { contents, mimeType, width, height }
+    : await toFile(encode(input().rotate(), mimeType).image, mimeType);
+
+  const derivatives: DerivativeImage[] = [];
+  for (const spec of DERIVATIVE_SPECS) {
+    if (spec.maxSize && longestSide <= spec.maxSize) {
+      continue;
+    }
+    if (spec.webp && mimeType === 'image/webp') {
+      continue;
+    }
+
+    let image = input().rotate();
+    if (spec.maxSize) {
+      image = image.resize({ width: spec.maxSize, height: spec.maxSize, fit: 'inside', withoutEnlargement: true });
+    }
+
+    const encoded = spec.webp
+      ? { image: image.webp({ quality: WEBP_QUALITY }), mimeType: 'image/webp' }
+      : encode(image, mimeType);
+
+    derivatives.push({ name: spec.name, ...await toFile(encoded.image, encoded.mimeType) });
+  }
+
+  return { ...original, derivatives };
+}
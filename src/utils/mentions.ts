@@ -0,0 +1,68 @@
+/**
+ * @mentions in comment text. A mention is "@" followed by a member's email, the
+ * username part of their email, or their name, which may contain spaces
+ * ("@Jane Doe"). The longest name that matches wins, so "@Jane Doe" mentions
+ * Jane Doe rather than a member called Jane; a mention that still fits more
+ * than one member is ambiguous and mentions nobody.
+ */
+
+export interface MentionableMember {
+  id: string;
+  email: string;
+  name: string | null;
+}
+
+// A mention must end at a word boundary: "@janet" does not mention "jane"
+const MENTION_CONTINUATION = /[\p{L}\p{N}_@-]/u;
+
+/**
+ * Names a member can be mentioned by, lowercased
+ */
+function getMentionNames(member: MentionableMember): string[] {
+  const email = member.email.toLowerCase();
+  const names = [email, email.split('@')[0]];
+
+  const name = member.name?.trim().replace(/\s+/g, ' ').toLowerCase();
+  if (name) {
+    names.push(name);
+  }
+  return names;
+}
+
+/**
+ * Ids of the members mentioned in content, in order of first mention
+ */
+export function findMentionedMembers(content: string, members: MentionableMember[]): string[] {
+  const candidates = members.flatMap(member =>
+    getMentionNames(member).map(name => ({ name, memberId: member.id }))
+  );
+  const text = content.toLowerCase();
+  const mentioned = new Set<string>();
+
+  for (let index = text.indexOf('@'); index !== -1; index = text.indexOf('@', index + 1)) {
+    if (index > 0 && !/\s/.test(text[index - 1])) continue;
+
+    const start = index + 1;
+    let longest = 0;
+    let memberIds = new Set<string>();
+
+    for (const { name, memberId } of candidates) {
+      if (name.length < longest || !text.startsWith(name, start)) continue;
+
+      const next = text[start + name.length];
+      if (next !== undefined && MENTION_CONTINUATION.test(next)) continue;
+
+      if (name.length > longest) {
+        longest = name.length;
+        memberIds = new Set();
+      }
+      memberIds.add(memberId);
+    }
+
+    if (memberIds.size === 1) {
+      mentioned.add(memberIds.values().next().value as string);
+    }
+  }
+
+  return Array.from(mentioned);
+}
@@ -0,0 +1,126 @@
+import { ProjectData } from '../types';
+
+/**
+ * Project documents carry a `schemaVersion`. Documents saved before versioning
+ * existed have none and count as version 1.
+ *
+ * To change the document shape, append a migration that upgrades from the
+ * previous version; CURRENT_SCHEMA_VERSION follows the last entry.
+ */
+
+export interface ProjectMigration {
+  // Version the document has after this migration runs
+  version: number;
+  description: string;
+  migrate: (data: any) => any;
+}
+
+export interface MigrationResult {
+  projectData: ProjectData;
+  fromVersion: number;
+  migrated: boolean;
+}
+
+export const LEGACY_SCHEMA_VERSION = 1;
+
+function isObject(value: any): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function forEachElement(data: any, visit: (element: any) => void): void {
+  const visitAll = (elements: any) => {
+    if (Array.isArray(elements)) {
+      elements.filter(isObject).forEach(visit);
+    }
+  };
+
+  visitAll(data.elements);
+  if (Array.isArray(data.pages)) {
+    data.pages.filter(isObject).forEach((page: any) => visitAll(page.elements));
+  }
+}
+
+const GEOMETRY_FIELDS = ['x', 'y', 'width', 'height', 'rotation', 'opacity'];
+
+const migrations: ProjectMigration[] = [
+  {
+    version: 2,
+    description: 'Fill in missing element properties and page element lists; store geometry as numbers',
+    migrate: data => {
+      if (!Array.isArray(data.elements)) {
+        data.elements = [];
+      }
+      if (!Array.isArray(data.pages)) {
+        data.pages = [];
+      }
+
+      data.pages.filter(isObject).forEach((page: any) => {
+        if (!Array.isArray(page.elements)) {
+          page.elements = [];
+        }
+      });
+
+      forEachElement(data, element => {
+        if (!isObject(element.properties)) {
+          element.properties = {};
+        }
+
+        // Early clients sent geometry from form inputs as strings
+        GEOMETRY_FIELDS.forEach(field => {
+          const value = element[field];
+          if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+            element[field] = Number(value);
+          }
+        });
+      });
+
+      return data;
+    }
+  }
+];
+
+export const CURRENT_SCHEMA_VERSION = migrations.length > 0
+  ? migrations[migrations.length - 1].version
+  : LEGACY_SCHEMA_VERSION;
+
+/**
+ * Schema version of a stored document (unversioned documents are legacy)
+ */
+export function getSchemaVersion(data: any): number {
+  return isObject(data) && Number.isInteger(data.schemaVersion) && data.schemaVersion > 0
+    ? data.schemaVersion
+    : LEGACY_SCHEMA_VERSION;
+}
+
+/**
+ * Upgrade a document to the current schema version.
+ * Documents from a newer server version are returned unchanged.
+ */
+export function migrateProjectData(data: any): MigrationResult {
+  const fromVersion = getSchemaVersion(data);
+
+  if (!isObject(data) || fromVersion >= CURRENT_SCHEMA_VERSION) {
+    return { projectData: data, fromVersion, migrated: false };
+  }
+
+  let projectData = JSON.parse(JSON.stringify(data));
+  migrations
+    .filter(migration => migration.version > fromVersion)
+    .forEach(migration => {
+      projectData = migration.migrate(projectData);
+      projectData.schemaVersion = migration.version;
+    });
+
+  return { projectData, fromVersion, migrated: true };
+}
+
+/**
+ * Bring project data sent by a client up to the current schema.
+ * Clients that don't send a version are writing the current schema.
+ */
+export function upgradeIncomingProjectData(data: any): any {
+  if (isObject(data) && data.schemaVersion === undefined) {
+    return { ...data, schemaVersion: CURRENT_SCHEMA_VERSION };
+  }
+  return migrateProjectData(data).projectData;
+}
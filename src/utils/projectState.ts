@@ -0,0 +1,265 @@
+import * as Y from 'yjs';
+import { ProjectData, Page, Element, ProjectSettings } from '../types';
+import { CURRENT_SCHEMA_VERSION } from './projectMigrations';
+
+/**
+ * Board.yDocState and BoardVersion.yDocState always hold a binary Yjs update.
+ * Older rows may still contain JSON-encoded ProjectData; they are detected and
+ * converted on read.
+ *
+ * Y.Doc layout:
+ *   elements: Y.Array<Y.Map>   top-level ProjectData.elements
+ *   pages:    Y.Array<Y.Map>   { id, name, elements: Y.Array<Y.Map>, ...other page fields }
+ *   settings: Y.Map            ProjectSettings
+ *   meta:     Y.Map            any other top-level ProjectData fields (e.g. title)
+ *
+ * Elements are Y.Maps of their fields, with `properties` as a nested Y.Map so
+ * concurrent edits to different properties merge instead of overwriting each other.
+ */
+
+export type BoardStateFormat = 'empty' | 'json' | 'yjs' | 'unknown';
+
+const PROJECT_KEYS = ['elements', 'pages', 'settings'];
+
+// Fresh conversions use a fixed client ID so converting the same JSON twice
+// (e.g. on two server processes) yields identical, idempotently mergeable updates
+const CONVERSION_CLIENT_ID = 0;
+
+export function createEmptyProjectData(): ProjectData {
+  return { schemaVersion: CURRENT_SCHEMA_VERSION, elements: [], pages: [] };
+}
+
+function isJsonEqual(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Identify what a stored yDocState blob contains
+ */
+export function detectBoardStateFormat(state: Uint8Array | null | undefined): BoardStateFormat {
+  if (!state || state.length === 0) {
+    return 'empty';
+  }
+
+  const text = Buffer.from(state).toString('utf8').trimStart();
+  if (text.startsWith('{')) {
+    try {
+      JSON.parse(text);
+      return 'json';
+    } catch (error) {
+      // Not JSON after all; fall through to the Yjs check
+    }
+  }
+
+  try {
+    Y.decodeUpdate(state);
+    return 'yjs';
+  } catch (error) {
+    return 'unknown';
+  }
+}
+
+function normalizeProjectData(data: any): ProjectData {
+  if (!data || typeof data !== 'object') {
+    return createEmptyProjectData();
+  }
+
+  return {
+    ...data,
+    elements: Array.isArray(data.elements) ? data.elements : [],
+    pages: Array.isArray(data.pages) ? data.pages : []
+  };
+}
+
+/**
+ * Update a Y.Map in place so it holds exactly the given plain object's fields
+ */
+function syncPlainMap(yMap: Y.Map<any>, values: Record<string, any>, nestedKeys: string[] = []): void {
+  yMap.forEach((_value, key) => {
+    if (values[key] === undefined && !nestedKeys.includes(key)) {
+      yMap.delete(key);
+    }
+  });
+
+  Object.entries(values).forEach(([key, value]) => {
+    if (value !== undefined && !isJsonEqual(yMap.get(key), value)) {
+      yMap.set(key, value);
+    }
+  });
+}
+
+function syncElementMap(yElement: Y.Map<any>, element: Element): void {
+  const { properties, ...fields } = element;
+  syncPlainMap(yElement, fields, ['properties']);
+
+  let yProperties = yElement.get('properties');
+  if (!(yProperties instanceof Y.Map)) {
+    yProperties = new Y.Map();
+    yElement.set('properties', yProperties);
+  }
+  syncPlainMap(yProperties, properties && typeof properties === 'object' ? properties : {});
+}
+
+/**
+ * Make a Y.Array of id-keyed Y.Maps match a list of items, updating maps in
+ * place where the order is unchanged and recreating them otherwise
+ */
+function syncIdArray<T extends { id: string }>(
+  yArray: Y.Array<Y.Map<any>>,
+  items: T[],
+  syncItem: (yItem: Y.Map<any>, item: T) => void
+): void {
+  const wantedIds = new Set(items.map(item => item.id));
+
+  // Drop items that no longer exist
+  for (let i = yArray.length - 1; i >= 0; i--) {
+    const yItem = yArray.get(i);
+    if (!(yItem instanceof Y.Map) || !wantedIds.has(yItem.get('id'))) {
+      yArray.delete(i, 1);
+    }
+  }
+
+  // Reordered items can't be moved in Yjs, so rebuild the array
+  const existingIds = yArray.toArray().map(yItem => yItem.get('id'));
+  let cursor = 0;
+  const keepsOrder = existingIds.every(id => {
+    while (cursor < items.length && items[cursor].id !== id) cursor++;
+    return cursor++ < items.length;
+  });
+  if (!keepsOrder || new Set(existingIds).size !== existingIds.length) {
+    yArray.delete(0, yArray.length);
+  }
+
+  items.forEach((item, index) => {
+    const yItem = index < yArray.length ? yArray.get(index) : undefined;
+    if (yItem && yItem.get('id') === item.id) {
+      syncItem(yItem, item);
+    } else {
+      const newItem = new Y.Map<any>();
+      yArray.insert(index, [newItem]);
+      syncItem(newItem, item);
+    }
+  });
+}
+
+function syncPageMap(yPage: Y.Map<any>, page: Page): void {
+  const { elements, ...fields } = page;
+  syncPlainMap(yPage, fields, ['elements']);
+
+  let yElements = yPage.get('elements');
+  if (!(yElements instanceof Y.Array)) {
+    yElements = new Y.Array();
+    yPage.set('elements', yElements);
+  }
+  syncIdArray(yElements, Array.isArray(elements) ? elements : [], syncElementMap);
+}
+
+/**
+ * Write ProjectData into a Y.Doc as a minimal set of changes, in one transaction
+ */
+export function applyProjectDataToYDoc(doc: Y.Doc, data: ProjectData, origin: any = null): void {
+  const projectData = normalizeProjectData(data);
+
+  doc.transact(() => {
+    syncIdArray(doc.getArray<Y.Map<any>>('elements'), projectData.elements, syncElementMap);
+    syncIdArray(doc.getArray<Y.Map<any>>('pages'), projectData.pages, syncPageMap);
+    syncPlainMap(doc.getMap('settings'), projectData.settings || {});
+
+    const meta: Record<string, any> = {};
+    Object.entries(projectData).forEach(([key, value]) => {
+      if (!PROJECT_KEYS.includes(key)) {
+        meta[key] = value;
+      }
+    });
+    syncPlainMap(doc.getMap('meta'), meta);
+  }, origin);
+}
+
+function elementFromYMap(yElement: Y.Map<any>): Element {
+  const element = yElement.toJSON() as Element;
+  if (!element.properties) {
+    element.properties = {};
+  }
+  return element;
+}
+
+/**
+ * Read ProjectData back out of a Y.Doc
+ */
+export function yDocToProjectData(doc: Y.Doc): ProjectData {
+  const elements = doc.getArray<Y.Map<any>>('elements').toArray().map(elementFromYMap);
+
+  const pages = doc.getArray<Y.Map<any>>('pages').toArray().map(yPage => {
+    const page = yPage.toJSON() as Page;
+    page.elements = Array.isArray(page.elements) ? page.elements : [];
+    return page;
+  });
+
+  const settings = doc.getMap('settings').toJSON() as ProjectSettings;
+
+  return {
+    ...doc.getMap('meta').toJSON(),
+    elements,
+    pages,
+    ...(Object.keys(settings).length > 0 && { settings })
+  };
+}
+
+/**
+ * Load a stored blob of either format into a Y.Doc
+ */
+export function loadBoardStateIntoYDoc(doc: Y.Doc, state: Uint8Array | null | undefined): void {
+  const format = detectBoardStateFormat(state);
+
+  if (format === 'yjs') {
+    Y.applyUpdate(doc, new Uint8Array(state!));
+  } else if (format === 'json') {
+    Y.applyUpdate(doc, encodeProjectState(parseJsonState(state!)));
+  } else if (format === 'unknown') {
+    console.warn('Ignoring board state in unknown format');
+  }
+}
+
+function parseJsonState(state: Uint8Array): ProjectData {
+  return normalizeProjectData(JSON.parse(Buffer.from(state).toString('utf8')));
+}
+
+/**
+ * Decode a stored blob of either format to ProjectData
+ */
+export function decodeBoardState(state: Uint8Array | null | undefined): ProjectData {
+  switch (detectBoardStateFormat(state)) {
+    case 'json':
+      return parseJsonState(state!);
+    case 'yjs': {
+      const doc = new Y.Doc();
+      Y.applyUpdate(doc, new Uint8Array(state!));
+      const projectData = yDocToProjectData(doc);
+      doc.destroy();
+      return projectData;
+    }
+    default:
+      return createEmptyProjectData();
+  }
+}
+
+/**
+ * Encode ProjectData as a fresh Yjs document state (the canonical stored format)
+ */
+export function encodeProjectState(data: ProjectData): Buffer {
+  const doc = new Y.Doc();
+  doc.clientID = CONVERSION_CLIENT_ID;
+  applyProjectDataToYDoc(doc, data);
+  const state = Buffer.from(Y.encodeStateAsUpdate(doc));
+  doc.destroy();
+  return state;
+}
+
+/**
+ * Convert a stored blob to the canonical Yjs format (returns null if it already is one)
+ */
+export function convertBoardStateToYjs(state: Uint8Array | null | undefined): Buffer | null {
+  return detectBoardStateFormat(state) === 'json'
+    ? encodeProjectState(parseJsonState(state!))
+    : null;
+}
@@ -0,0 +1,144 @@
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { PDFDocument } from 'pdf-lib';
+import { RasterRequest, RasterResponse } from './rasterWorker';
+
+/**
+ * PNG and PDF export, built on the SVG renderer. Rasterization uses resvg
+ * compiled to WebAssembly with bundled DejaVu fonts, so it needs no browser,
+ * GPU or system fonts. It runs on a worker thread (see rasterWorker), so
+ * exports never block collaboration traffic.
+ */
+
+export const MIN_EXPORT_SCALE = 0.1;
+export const MAX_EXPORT_SCALE = 4;
+// Upper bound on the pixels of one rendered page (~130 MB of RGBA)
+export const MAX_EXPORT_PIXELS = 32 * 1024 * 1024;
+// Upper bound on the pixels of all pages rendered for one export
+export const MAX_EXPORT_DOCUMENT_PIXELS = 64 * 1024 * 1024;
+
+// PDF pages use points; canvas pixels are treated as CSS pixels (96 per inch)
+const POINTS_PER_PIXEL = 72 / 96;
+
+export interface RasterPage {
+  png: Uint8Array;
+  // Canvas size in pixels (the PNG itself may be scaled)
+  width: number;
+  height: number;
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pendingRenders = new Map<number, { resolve: (png: Uint8Array) => void; reject: (error: Error) => void }>();
+
+/**
+ * The rasterizer worker, started on first use and again after it exits
+ */
+function getWorker(): Worker {
+  if (worker) return worker;
+
+  // Under ts-node (development, scripts) the worker is TypeScript as well
+  const isTypeScript = path.extname(__filename) === '.ts';
+  const started = new Worker(path.join(__dirname, `rasterWorker${path.extname(__filename)}`), {
+    execArgv: isTypeScript ? ['--require', 'ts-node/register/transpile-only'] : undefined
+  });
+
+  started.on('message', (response: RasterResponse) => {
+    const pending = pendingRenders.get(response.id);
+    if (!pending) return;
+
+    pendingRenders.delete(response.id);
+    if (pendingRenders.size === 0) started.unref();
+
+    if ('error' in response) {
+      pending.reject(new Error(response.error));
+    } else {
+      pending.resolve(response.png);
+    }
+  });
+
+  const fail = (error: Error) => {
+    if (worker === started) worker = null;
+    pendingRenders.forEach(pending => pending.reject(error));
+    pendingRenders.clear();
+  };
+  started.on('error', fail);
+  started.on('exit', code => fail(new Error(`Rasterizer worker exited with code ${code}`)));
+
+  // An idle worker never keeps the process alive
+  started.unref();
+  worker = started;
+  return started;
+}
+
+/**
+ * Whether a page of this size can be rendered at the given scale
+ */
+export function isWithinPixelLimit(width: number, height: number, scale: number): boolean {
+  return Math.ceil(width * scale) * Math.ceil(height * scale) <= MAX_EXPORT_PIXELS;
+}
+
+function countPixels(pages: { width: number; height: number }[], scale: number): number {
+  return pages.reduce((total, page) => total + Math.ceil(page.width * scale) * Math.ceil(page.height * scale), 0);
+}
+
+/**
+ * Whether all of these pages can be rendered for one export at the given scale
+ */
+export function isWithinDocumentPixelLimit(pages: { width: number; height: number }[], scale: number): boolean {
+  return countPixels(pages, scale) <= MAX_EXPORT_DOCUMENT_PIXELS &&
+    pages.every(page => isWithinPixelLimit(page.width, page.height, scale));
+}
+
+/**
+ * The largest scale up to the given one at which all of these pages can be rendered
+ * for one export, or null if they do not fit even at the minimum scale
+ */
+export function fitScaleToDocumentPixelLimit(pages: { width: number; height: number }[], scale: number): number | null {
+  const pixels = countPixels(pages, scale);
+  let fitted = pixels > MAX_EXPORT_DOCUMENT_PIXELS ? scale * Math.sqrt(MAX_EXPORT_DOCUMENT_PIXELS / pixels) : scale;
+
+  // Pages are rounded up to whole pixels (and may exceed the per-page limit), so step down until they fit
+  while (fitted >= MIN_EXPORT_SCALE && !isWithinDocumentPixelLimit(pages, fitted)) {
+    fitted *= 0.95;
+  }
+
+  return fitted >= MIN_EXPORT_SCALE ? fitted : null;
+}
+
+/**
+ * Rasterize an SVG document to PNG. Images must already be embedded as data URIs;
+ * external references are not fetched.
+ */
+export function renderSvgToPng(svg: string, scale: number = 1): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const rasterizer = getWorker();
+    const id = nextRequestId++;
+
+    pendingRenders.set(id, { resolve, reject });
+    rasterizer.ref();
+    rasterizer.postMessage({ id, svg, scale } as RasterRequest);
+  });
+}
+
+/**
+ * Build a PDF with one page per rendered image, each sized from its canvas
+ */
+export async function buildPdf(pages: RasterPage[], title?: string): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  if (title) {
+    pdf.setTitle(title);
+  }
+  pdf.setProducer('Sowntra');
+
+  for (const page of pages) {
+    const image = await pdf.embedPng(page.png);
+    const width = page.width * POINTS_PER_PIXEL;
+    const height = page.height * POINTS_PER_PIXEL;
+
+    const pdfPage = pdf.addPage([width, height]);
+    pdfPage.drawImage(image, { x: 0, y: 0, width, height });
+  }
+
+  return pdf.save();
+}
@@ -0,0 +1,99 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parentPort } from 'worker_threads';
+import { initWasm, Resvg } from '@resvg/resvg-wasm';
+
+/**
+ * Worker thread that rasterizes SVG documents with resvg (see renderSvgToPng).
+ * Rendering a large page takes seconds of CPU, which must not block the
+ * server's event loop; requests are handled one at a time, in order.
+ */
+
+export interface RasterRequest {
+  id: number;
+  svg: string;
+  scale: number;
+}
+
+export type RasterResponse =
+  | { id: number; png: Uint8Array }
+  | { id: number; error: string };
+
+const FONT_FILES = [
+  'DejaVuSans.ttf',
+  'DejaVuSans-Bold.ttf',
+  'DejaVuSans-Oblique.ttf',
+  'DejaVuSans-BoldOblique.ttf',
+  'DejaVuSerif.ttf',
+  'DejaVuSerif-Bold.ttf',
+  'DejaVuSerif-Italic.ttf',
+  'DejaVuSerif-BoldItalic.ttf',
+  'DejaVuSansMono.ttf',
+  'DejaVuSansMono-Bold.ttf'
+];
+
+let initialized: Promise<Uint8Array[]> | null = null;
+
+/**
+ * Load the wasm module and fonts once per worker
+ */
+function initRasterizer(): Promise<Uint8Array[]> {
+  if (!initialized) {
+    initialized = (async () => {
+      await initWasm(fs.readFileSync(require.resolve('@resvg/resvg-wasm/index_bg.wasm')));
+
+      const fontDir = path.join(path.dirname(require.resolve('dejavu-fonts-ttf/package.json')), 'ttf');
+      return FONT_FILES.map(file => new Uint8Array(fs.readFileSync(path.join(fontDir, file))));
+    })();
+
+    initialized.catch(() => {
+      // Allow a retry after a failed initialization
+      initialized = null;
+    });
+  }
+
+  return initialized;
+}
+
+async function render(svg: string, scale: number): Promise<Uint8Array> {
+  const fontBuffers = await initRasterizer();
+
+  const resvg = new Resvg(svg, {
+    fitTo: { mode: 'zoom', value: scale },
+    font: {
+      fontBuffers,
+      defaultFontFamily: 'DejaVu Sans',
+      sansSerifFamily: 'DejaVu Sans',
+      serifFamily: 'DejaVu Serif',
+      monospaceFamily: 'DejaVu Sans Mono'
+    }
+  });
+
+  try {
+    const image = resvg.render();
+    try {
+      return image.asPng();
+    } finally {
+      image.free();
+    }
+  } finally {
+    resvg.free();
+  }
+}
+
+// Requests are chained so only one page is in memory at a time
+let queue: Promise<void> = Promise.resolve();
+
+parentPort?.on('message', ({ id, svg, scale }: RasterRequest) => {
+  queue = queue.then(async () => {
+    try {
+      const png = await render(svg, scale);
+      parentPort!.postMessage({ id, png } as RasterResponse, [png.buffer as ArrayBuffer]);
+    } catch (error) {
+      parentPort!.postMessage({
+        id,
+        error: error instanceof Error ? error.message : String(error)
+      } as RasterResponse);
+    }
+  });
+});
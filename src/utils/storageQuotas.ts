@@ -0,0 +1,118 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+
+/**
+ * Byte quotas on uploaded files, per user (by tier) and per board. Stored
+ * files count once however many assets share them (see storeSharedAssetFile),
+ * so adding content that is already stored is free.
+ */
+
+const MB = 1024 * 1024;
+
+// Quota of each user tier in MB; STORAGE_QUOTA_<TIER>_MB overrides it
+const DEFAULT_TIER_QUOTAS_MB: Record<string, number> = {
+  free: 1024,
+  pro: 20 * 1024,
+  team: 100 * 1024
+};
+
+const DEFAULT_TIER = 'free';
+
+export interface StorageUsage {
+  used: number;
+  quota: number;
+  remaining: number;
+}
+
+export interface QuotaExceeded extends StorageUsage {
+  scope: 'user' | 'board';
+  fileSize: number;
+}
+
+function readQuotaMB(name: string, defaultMB: number): number {
+  const value = Number(process.env[name]);
+  return Math.floor((process.env[name] && Number.isFinite(value) && value >= 0 ? value : defaultMB) * MB);
+}
+
+/**
+ * Byte quota of a user tier; unknown tiers get the default tier's quota
+ */
+export function getTierQuota(tier: string): number {
+  const knownTier = Object.prototype.hasOwnProperty.call(DEFAULT_TIER_QUOTAS_MB, tier) ? tier : DEFAULT_TIER;
+  return readQuotaMB(`STORAGE_QUOTA_${knownTier.toUpperCase()}_MB`, DEFAULT_TIER_QUOTAS_MB[knownTier]);
+}
+
+export function getBoardQuota(): number {
+  return readQuotaMB('BOARD_STORAGE_QUOTA_MB', 2 * 1024);
+}
+
+/**
+ * Bytes of the distinct files referenced by the matching assets
+ */
+async function sumStoredBytes(where: Prisma.Sql): Promise<number> {
+  const [row] = await prisma.$queryRaw<{ total: bigint | null }[]>`
+    SELECT SUM(size) AS total FROM (
+      SELECT DISTINCT ON ("storageRef") "fileSize" AS size FROM "Asset" WHERE ${where}
+    ) AS files`;
+  return Number(row?.total ?? 0);
+}
+
+function toUsage(used: number, quota: number): StorageUsage {
+  return { used, quota, remaining: Math.max(0, quota - used) };
+}
+
+/**
+ * Bytes uploaded by a user, against the quota of their tier
+ */
+export async function getUserStorageUsage(userId: string): Promise<StorageUsage & { tier: string }> {
+  const user = await prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { tier: true } });
+  const used = await sumStoredBytes(Prisma.sql`"uploadedById" = ${userId}`);
+  return { tier: user.tier, ...toUsage(used, getTierQuota(user.tier)) };
+}
+
+/**
+ * Bytes of a board's assets, against the board quota
+ */
+export async function getBoardStorageUsage(boardId: string): Promise<StorageUsage> {
+  const used = await sumStoredBytes(Prisma.sql`"boardId" = ${boardId}`);
+  return toUsage(used, getBoardQuota());
+}
+
+/**
+ * The quota a user's upload of `fileSize` bytes to a board would exceed; null
+ * if it fits. With the content hash known, content the user (or the board)
+ * already has does not count again.
+ */
+export async function findExceededQuota(
+  userId: string,
+  boardId: string,
+  fileSize: number,
+  contentHash?: string
+): Promise<QuotaExceeded | null> {
+  const [userUsage, boardUsage, userHasContent, boardHasContent] = await Promise.all([
+    getUserStorageUsage(userId),
+    getBoardStorageUsage(boardId),
+    contentHash ? prisma.asset.count({ where: { uploadedById: userId, contentHash } }) : 0,
+    contentHash ? prisma.asset.count({ where: { boardId, contentHash } }) : 0
+  ]);
+
+  if (!userHasContent && userUsage.used + fileSize > userUsage.quota) {
+    return { scope: 'user', fileSize, used: userUsage.used, quota: userUsage.quota, remaining: userUsage.remaining };
+  }
+  if (!boardHasContent && boardUsage.used + fileSize > boardUsage.quota) {
+    return { scope: 'board', fileSize, ...boardUsage };
+  }
+  return null;
+}
+
+/**
+ * Error response body for an exceeded quota (sent with 413)
+ */
+export function quotaExceededError(exceeded: QuotaExceeded): Record<string, unknown> {
+  return {
+    error: exceeded.scope === 'user'
+      ? 'Storage quota exceeded: this file is larger than your remaining storage'
+      : 'Storage quota exceeded: this file is larger than the board\'s remaining storage',
+    ...exceeded
+  };
+}
@@ -0,0 +1,740 @@
+import { DOMParser, onErrorStopParsing, Element as XmlElement } from '@xmldom/xmldom';
+import { v4 as uuidv4 } from 'uuid';
+import { Element, ProjectData } from '../types';
+import { CURRENT_SCHEMA_VERSION } from './projectMigrations';
+import { DEFAULT_CANVAS_WIDTH, DEFAULT_CANVAS_HEIGHT } from './svgRenderer';
+
+/**
+ * Converts SVG documents to ProjectData.
+ *
+ * rect, circle and ellipse become shapes; line, polyline and polygon become lines;
+ * paths become freehand draw elements (curves are flattened to points); text and
+ * image map directly. Group transforms and inherited presentation attributes are
+ * applied. Gradients, patterns, clipping, masks, filters and <use> are not supported.
+ */
+
+const MAX_IMPORTED_ELEMENTS = 5000;
+// Points per curve segment when flattening paths
+const CURVE_STEPS = 12;
+// Rough average glyph width, used to size text boxes
+const AVERAGE_CHAR_WIDTH = 0.6;
+const TEXT_LINE_HEIGHT = 1.2;
+const UNSUPPORTED_PAINT_FALLBACK = '#cccccc';
+
+const EMBEDDABLE_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+// Containers whose content is never rendered directly
+const SKIPPED_TAGS = new Set([
+  'defs', 'clipPath', 'mask', 'pattern', 'linearGradient', 'radialGradient', 'filter',
+  'symbol', 'marker', 'style', 'script', 'title', 'desc', 'metadata', 'foreignObject'
+]);
+
+/**
+ * Image data found in an imported file, to be stored as a board asset
+ */
+export interface EmbeddedImage {
+  elementId: string;
+  contents: Buffer;
+  mimeType: string;
+}
+
+export interface ImportedProject {
+  title: string | null;
+  projectData: ProjectData;
+  images: EmbeddedImage[];
+  warnings: string[];
+}
+
+// Affine transform [a, b, c, d, e, f], as in SVG's matrix()
+type Matrix = [number, number, number, number, number, number];
+type Point = [number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+interface InheritedStyle {
+  fill: string;
+  stroke: string | null;
+  strokeWidth: number;
+  opacity: number;
+  fontFamily: string | null;
+  fontSize: number;
+  fontWeight: string | null;
+  fontStyle: string | null;
+  textAnchor: string;
+  dashArray: number[] | null;
+}
+
+const DEFAULT_STYLE: InheritedStyle = {
+  fill: '#000000',
+  stroke: null,
+  strokeWidth: 1,
+  opacity: 1,
+  fontFamily: null,
+  fontSize: 16,
+  fontWeight: null,
+  fontStyle: null,
+  textAnchor: 'start',
+  dashArray: null
+};
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5]
+  ];
+}
+
+function applyMatrix(m: Matrix, [x, y]: Point): Point {
+  return [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]];
+}
+
+/**
+ * Split a transform into rotation (degrees) and axis scales, ignoring skew
+ */
+function decompose(m: Matrix): { rotation: number; scaleX: number; scaleY: number } {
+  const scaleX = Math.hypot(m[0], m[1]);
+  const determinant = m[0] * m[3] - m[1] * m[2];
+  return {
+    rotation: (Math.atan2(m[1], m[0]) * 180) / Math.PI,
+    scaleX,
+    scaleY: scaleX === 0 ? 0 : Math.abs(determinant) / scaleX
+  };
+}
+
+function parseNumberList(value: string): number[] {
+  return (value.match(/[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi) || []).map(Number);
+}
+
+function parseTransform(value: string | null): Matrix {
+  if (!value) return IDENTITY;
+
+  let matrix = IDENTITY;
+  const pattern = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(value)) !== null) {
+    const args = parseNumberList(match[2]);
+    let next: Matrix = IDENTITY;
+
+    switch (match[1]) {
+      case 'matrix':
+        if (args.length === 6) next = args as Matrix;
+        break;
+      case 'translate':
+        next = [1, 0, 0, 1, args[0] || 0, args[1] || 0];
+        break;
+      case 'scale':
+        next = [args[0] ?? 1, 0, 0, args[1] ?? args[0] ?? 1, 0, 0];
+        break;
+      case 'rotate': {
+        const angle = ((args[0] || 0) * Math.PI) / 180;
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        const [cx, cy] = [args[1] || 0, args[2] || 0];
+        next = multiply(multiply([1, 0, 0, 1, cx, cy], [cos, sin, -sin, cos, 0, 0]), [1, 0, 0, 1, -cx, -cy]);
+        break;
+      }
+      case 'skewX':
+        next = [1, 0, Math.tan(((args[0] || 0) * Math.PI) / 180), 1, 0, 0];
+        break;
+      case 'skewY':
+        next = [1, Math.tan(((args[0] || 0) * Math.PI) / 180), 0, 1, 0, 0];
+        break;
+    }
+
+    matrix = multiply(matrix, next);
+  }
+
+  return matrix;
+}
+
+/**
+ * Parse a length in user units (px); pt/pc/in/cm/mm are converted, % and em are not supported
+ */
+function parseLength(value: string | null | undefined, fallback = 0): number {
+  if (value === null || value === undefined) return fallback;
+
+  const match = /^\s*([-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?)\s*(px|pt|pc|in|cm|mm)?\s*$/i.exec(value);
+  if (!match) return fallback;
+
+  const units: Record<string, number> = { px: 1, pt: 96 / 72, pc: 16, in: 96, cm: 96 / 2.54, mm: 96 / 25.4 };
+  return Number(match[1]) * (units[(match[2] || 'px').toLowerCase()] || 1);
+}
+
+function getStyleValue(node: XmlElement, name: string): string | null {
+  const style = node.getAttribute('style');
+  if (style) {
+    for (const declaration of style.split(';')) {
+      const separator = declaration.indexOf(':');
+      if (separator > 0 && declaration.slice(0, separator).trim() === name) {
+        return declaration.slice(separator + 1).replace(/!important/, '').trim();
+      }
+    }
+  }
+
+  const attribute = node.getAttribute(name);
+  return attribute === null ? null : attribute.trim();
+}
+
+class SvgImporter {
+  elements: Element[] = [];
+  images: EmbeddedImage[] = [];
+  private warnings = new Map<string, number>();
+  private truncated = false;
+
+  warn(message: string): void {
+    this.warnings.set(message, (this.warnings.get(message) || 0) + 1);
+  }
+
+  getWarnings(): string[] {
+    return Array.from(this.warnings.entries()).map(([message, count]) =>
+      count > 1 ? `${message} (${count} times)` : message
+    );
+  }
+
+  /**
+   * Add an element unless the element limit is reached; returns whether it was added
+   */
+  private add(element: Element): boolean {
+    if (this.elements.length >= MAX_IMPORTED_ELEMENTS) {
+      if (!this.truncated) {
+        this.truncated = true;
+        this.warn(`Only the first ${MAX_IMPORTED_ELEMENTS} elements were imported`);
+      }
+      return false;
+    }
+    this.elements.push(element);
+    return true;
+  }
+
+  private paint(value: string | null, inherited: string | null): string | null {
+    if (value === null || value === 'inherit') return inherited;
+    if (/^url\(/i.test(value)) {
+      this.warn('Gradient and pattern fills were replaced with a solid color');
+      return UNSUPPORTED_PAINT_FALLBACK;
+    }
+    return value;
+  }
+
+  private resolveStyle(node: XmlElement, parent: InheritedStyle): InheritedStyle {
+    const dashArray = getStyleValue(node, 'stroke-dasharray');
+    const fontSize = getStyleValue(node, 'font-size');
+    const strokeWidth = getStyleValue(node, 'stroke-width');
+    const opacity = getStyleValue(node, 'opacity');
+
+    return {
+      fill: this.paint(getStyleValue(node, 'fill'), parent.fill) || parent.fill,
+      stroke: this.paint(getStyleValue(node, 'stroke'), parent.stroke),
+      strokeWidth: strokeWidth !== null ? parseLength(strokeWidth, parent.strokeWidth) : parent.strokeWidth,
+      // Opacity is not inherited in SVG, but a group's opacity applies to all of its content
+      opacity: parent.opacity * (opacity !== null && Number.isFinite(Number(opacity)) ? Math.min(1, Math.max(0, Number(opacity))) : 1),
+      fontFamily: getStyleValue(node, 'font-family') || parent.fontFamily,
+      fontSize: fontSize !== null ? parseLength(fontSize, parent.fontSize) : parent.fontSize,
+      fontWeight: getStyleValue(node, 'font-weight') || parent.fontWeight,
+      fontStyle: getStyleValue(node, 'font-style') || parent.fontStyle,
+      textAnchor: getStyleValue(node, 'text-anchor') || parent.textAnchor,
+      dashArray: dashArray === 'none' ? null : (dashArray !== null ? parseNumberList(dashArray) : parent.dashArray)
+    };
+  }
+
+  private strokeProperties(style: InheritedStyle, matrix: Matrix): Record<string, any> {
+    if (!style.stroke || style.stroke === 'none') return {};
+
+    const { scaleX, scaleY } = decompose(matrix);
+    return {
+      stroke: style.stroke,
+      strokeWidth: style.strokeWidth * Math.sqrt(scaleX * scaleY)
+    };
+  }
+
+  private commonFields(style: InheritedStyle): Partial<Element> {
+    return style.opacity < 1 ? { opacity: style.opacity } : {};
+  }
+
+  /**
+   * An axis-aligned box in local coordinates, placed via the transform's rotation and scale
+   */
+  private placeBox(x: number, y: number, width: number, height: number, matrix: Matrix) {
+    const { rotation, scaleX, scaleY } = decompose(matrix);
+    const [cx, cy] = applyMatrix(matrix, [x + width / 2, y + height / 2]);
+    const scaledWidth = width * scaleX;
+    const scaledHeight = height * scaleY;
+
+    return {
+      x: cx - scaledWidth / 2,
+      y: cy - scaledHeight / 2,
+      width: scaledWidth,
+      height: scaledHeight,
+      ...(Math.abs(rotation) > 0.001 && { rotation })
+    };
+  }
+
+  private addShape(shapeType: string, box: { x: number; y: number; width: number; height: number }, style: InheritedStyle, matrix: Matrix, extra: Record<string, any> = {}): void {
+    if (box.width <= 0 || box.height <= 0) return;
+
+    this.add({
+      id: uuidv4(),
+      type: 'shape',
+      ...this.placeBox(box.x, box.y, box.width, box.height, matrix),
+      ...this.commonFields(style),
+      properties: {
+        shapeType,
+        fill: style.fill,
+        ...this.strokeProperties(style, matrix),
+        ...extra
+      }
+    });
+  }
+
+  /**
+   * Lines and draw strokes: points are transformed, then stored relative to their bounding box
+   */
+  private addPolyline(type: 'line' | 'draw', points: Point[], style: InheritedStyle, matrix: Matrix): void {
+    if (points.length < (type === 'line' ? 2 : 1)) return;
+
+    const transformed = points.map(point => applyMatrix(matrix, point));
+    // Paths can have more points than fit in the arguments of Math.min
+    let [minX, minY] = transformed[0];
+    let [maxX, maxY] = transformed[0];
+    for (const [x, y] of transformed) {
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    }
+
+    // Filled paths without a stroke keep their color as the stroke
+    const strokeColor = style.stroke && style.stroke !== 'none'
+      ? style.stroke
+      : (style.fill !== 'none' ? style.fill : '#000000');
+    const { scaleX, scaleY } = decompose(matrix);
+
+    this.add({
+      id: uuidv4(),
+      type,
+      x: minX,
+      y: minY,
+      width: maxX - minX,
+      height: maxY - minY,
+      ...this.commonFields(style),
+      properties: {
+        points: transformed.flatMap(([x, y]) => [x - minX, y - minY]),
+        stroke: strokeColor,
+        strokeWidth: style.strokeWidth * Math.sqrt(scaleX * scaleY),
+        ...(type === 'line' && style.dashArray && style.dashArray.length > 0 && { dash: style.dashArray })
+      }
+    });
+  }
+
+  private addText(node: XmlElement, style: InheritedStyle, matrix: Matrix): void {
+    // Each tspan with its own position starts a new line
+    const lines: string[] = [];
+    let current = '';
+    node.childNodes && Array.from(node.childNodes as any as ArrayLike<any>).forEach((child: any) => {
+      if (child.nodeType === 3) {
+        current += child.nodeValue || '';
+      } else if (child.nodeType === 1 && child.localName === 'tspan') {
+        if ((child.getAttribute('x') !== null || child.getAttribute('dy') !== null) && current.trim()) {
+          lines.push(current.trim());
+          current = '';
+        }
+        current += child.textContent || '';
+      }
+    });
+    if (current.trim()) lines.push(current.trim());
+    if (lines.length === 0) return;
+
+    const { scaleX } = decompose(matrix);
+    const fontSize = style.fontSize * scaleX;
+    const width = lines.reduce((longest, line) => Math.max(longest, line.length), 0) * fontSize * AVERAGE_CHAR_WIDTH;
+    const height = lines.length * fontSize * TEXT_LINE_HEIGHT;
+
+    const anchorX = parseLength(node.getAttribute('x'));
+    const baselineY = parseLength(node.getAttribute('y'));
+    const alignments: Record<string, { textAlign: string; offset: number }> = {
+      start: { textAlign: 'left', offset: 0 },
+      middle: { textAlign: 'center', offset: 0.5 },
+      end: { textAlign: 'right', offset: 1 }
+    };
+    const { textAlign, offset } = alignments[style.textAnchor] || alignments.start;
+
+    // Box in local units: left edge from the anchor, top from the first baseline
+    const localWidth = width / (scaleX || 1);
+    const localHeight = height / (scaleX || 1);
+    const box = this.placeBox(anchorX - localWidth * offset, baselineY - style.fontSize, localWidth, localHeight, matrix);
+
+    this.add({
+      id: uuidv4(),
+      type: 'text',
+      ...box,
+      ...this.commonFields(style),
+      properties: {
+        text: lines.join('\n'),
+        fontSize,
+        textAlign,
+        color: style.fill === 'none' ? '#000000' : style.fill,
+        ...(style.fontFamily && { fontFamily: style.fontFamily.replace(/["']/g, '') }),
+        ...(style.fontWeight && { fontWeight: style.fontWeight }),
+        ...(style.fontStyle && { fontStyle: style.fontStyle })
+      }
+    });
+  }
+
+  private addImage(node: XmlElement, style: InheritedStyle, matrix: Matrix): void {
+    const href = node.getAttribute('href') || node.getAttribute('xlink:href') || '';
+    const width = parseLength(node.getAttribute('width'));
+    const height = parseLength(node.getAttribute('height'));
+    if (!href || width <= 0 || height <= 0) {
+      this.warn('Images without a source or size were skipped');
+      return;
+    }
+
+    const id = uuidv4();
+    const dataUri = /^data:([^;,]+)(;base64)?,(.*)$/is.exec(href);
+    let embeddedImage: EmbeddedImage | null = null;
+
+    if (dataUri) {
+      const mimeType = dataUri[1].toLowerCase();
+      if (!EMBEDDABLE_IMAGE_TYPES.includes(mimeType)) {
+        this.warn(`Embedded ${mimeType} images were skipped`);
+        return;
+      }
+      const contents = dataUri[2]
+        ? Buffer.from(dataUri[3], 'base64')
+        : Buffer.from(decodeURIComponent(dataUri[3]), 'binary');
+      embeddedImage = { elementId: id, contents, mimeType };
+    } else if (!/^https?:\/\//i.test(href)) {
+      this.warn('Images with relative or local paths were skipped');
+      return;
+    }
+
+    const fits: Record<string, string> = { none: 'fill', slice: 'cover' };
+    const aspect = (node.getAttribute('preserveAspectRatio') || '').split(/\s+/);
+
+    const added = this.add({
+      id,
+      type: 'image',
+      ...this.placeBox(parseLength(node.getAttribute('x')), parseLength(node.getAttribute('y')), width, height, matrix),
+      ...this.commonFields(style),
+      properties: {
+        // Embedded images get their asset URL once stored
+        src: dataUri ? 'pending' : href,
+        objectFit: fits[aspect[0] === 'none' ? 'none' : aspect[1]] || 'contain'
+      }
+    });
+
+    // Images of elements beyond the element limit are not stored
+    if (added && embeddedImage) {
+      this.images.push(embeddedImage);
+    }
+  }
+
+  visit(node: XmlElement, parentStyle: InheritedStyle, parentMatrix: Matrix): void {
+    const tag = node.localName || '';
+    if (SKIPPED_TAGS.has(tag)) return;
+
+    if (getStyleValue(node, 'display') === 'none' || getStyleValue(node, 'visibility') === 'hidden') {
+      return;
+    }
+
+    const style = this.resolveStyle(node, parentStyle);
+    const matrix = multiply(parentMatrix, parseTransform(node.getAttribute('transform')));
+    const attr = (name: string) => parseLength(node.getAttribute(name));
+
+    switch (tag) {
+      case 'svg':
+      case 'g':
+      case 'a':
+      case 'switch':
+        Array.from(node.childNodes as any as ArrayLike<any>)
+          .filter((child: any) => child.nodeType === 1)
+          .forEach((child: any) => this.visit(child, style, matrix));
+        return;
+      case 'rect': {
+        const rx = node.getAttribute('rx') !== null ? attr('rx') : attr('ry');
+        this.addShape('rectangle', { x: attr('x'), y: attr('y'), width: attr('width'), height: attr('height') }, style, matrix,
+          rx > 0 ? { cornerRadius: rx * decompose(matrix).scaleX } : {});
+        return;
+      }
+      case 'circle': {
+        const r = attr('r');
+        this.addShape('circle', { x: attr('cx') - r, y: attr('cy') - r, width: r * 2, height: r * 2 }, style, matrix);
+        return;
+      }
+      case 'ellipse': {
+        const [rx, ry] = [attr('rx'), attr('ry')];
+        this.addShape('ellipse', { x: attr('cx') - rx, y: attr('cy') - ry, width: rx * 2, height: ry * 2 }, style, matrix);
+        return;
+      }
+      case 'line':
+        this.addPolyline('line', [[attr('x1'), attr('y1')], [attr('x2'), attr('y2')]], style, matrix);
+        return;
+      case 'polyline':
+      case 'polygon': {
+        const numbers = parseNumberList(node.getAttribute('points') || '');
+        const points: Point[] = [];
+        for (let i = 0; i + 1 < numbers.length; i += 2) {
+          points.push([numbers[i], numbers[i + 1]]);
+        }
+        if (tag === 'polygon' && points.length > 2) {
+          points.push(points[0]);
+        }
+        this.addPolyline('line', points, style, matrix);
+        return;
+      }
+      case 'path':
+        flattenPath(node.getAttribute('d') || '').forEach(points => this.addPolyline('draw', points, style, matrix));
+        return;
+      case 'text':
+        this.addText(node, style, matrix);
+        return;
+      case 'image':
+        this.addImage(node, style, matrix);
+        return;
+      default:
+        this.warn(`Unsupported <${tag}> elements were skipped`);
+    }
+  }
+}
+
+function cubicPoint(p0: Point, p1: Point, p2: Point, p3: Point, t: number): Point {
+  const u = 1 - t;
+  return [
+    u * u * u * p0[0] + 3 * u * u * t * p1[0] + 3 * u * t * t * p2[0] + t * t * t * p3[0],
+    u * u * u * p0[1] + 3 * u * u * t * p1[1] + 3 * u * t * t * p2[1] + t * t * t * p3[1]
+  ];
+}
+
+function quadraticPoint(p0: Point, p1: Point, p2: Point, t: number): Point {
+  const u = 1 - t;
+  return [
+    u * u * p0[0] + 2 * u * t * p1[0] + t * t * p2[0],
+    u * u * p0[1] + 2 * u * t * p1[1] + t * t * p2[1]
+  ];
+}
+
+/**
+ * Points along an elliptical arc (SVG endpoint parameterization, spec section F.6.5)
+ */
+function arcPoints(from: Point, rx: number, ry: number, angle: number, largeArc: boolean, sweep: boolean, to: Point): Point[] {
+  if (rx === 0 || ry === 0) return [to];
+
+  const phi = (angle * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (from[0] - to[0]) / 2;
+  const dy = (from[1] - to[1]) / 2;
+  const x1 = cos * dx + sin * dy;
+  const y1 = -sin * dx + cos * dy;
+
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cx1 = factor * ((rx * y1) / ry);
+  const cy1 = factor * (-(ry * x1) / rx);
+  const cx = cos * cx1 - sin * cy1 + (from[0] + to[0]) / 2;
+  const cy = sin * cx1 + cos * cy1 + (from[1] + to[1]) / 2;
+
+  const vectorAngle = (ux: number, uy: number, vx: number, vy: number) =>
+    Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const start = vectorAngle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+  let delta = vectorAngle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  const points: Point[] = [];
+  for (let i = 1; i <= CURVE_STEPS; i++) {
+    const theta = start + (delta * i) / CURVE_STEPS;
+    points.push([
+      cx + rx * Math.cos(theta) * cos - ry * Math.sin(theta) * sin,
+      cy + rx * Math.cos(theta) * sin + ry * Math.sin(theta) * cos
+    ]);
+  }
+  return points;
+}
+
+/**
+ * Flatten SVG path data into one point list per subpath
+ */
+export function flattenPath(d: string): Point[][] {
+  const tokens = d.match(/[a-df-z]|[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi) || [];
+  const subpaths: Point[][] = [];
+  let points: Point[] = [];
+  let current: Point = [0, 0];
+  let start: Point = [0, 0];
+  let lastControl: Point | null = null;
+  let lastCommand = '';
+  let index = 0;
+  let command = '';
+
+  const next = () => Number(tokens[index++]);
+  const hasNumber = () => index < tokens.length && !/^[a-z]$/i.test(tokens[index]);
+  const finish = () => {
+    if (points.length > 0) subpaths.push(points);
+    points = [];
+  };
+
+  while (index < tokens.length) {
+    if (/^[a-z]$/i.test(tokens[index])) {
+      command = tokens[index++];
+    } else if (!command) {
+      break;
+    }
+
+    const relative = command === command.toLowerCase();
+    const offset = (point: Point): Point => relative ? [current[0] + point[0], current[1] + point[1]] : point;
+    const upper = command.toUpperCase();
+
+    if (upper === 'Z') {
+      if (points.length > 0) points.push(start);
+      current = start;
+      finish();
+      lastControl = null;
+      lastCommand = 'Z';
+      continue;
+    }
+
+    if (!hasNumber()) {
+      // Malformed data: skip the command
+      index++;
+      continue;
+    }
+
+    switch (upper) {
+      case 'M': {
+        finish();
+        current = offset([next(), next()]);
+        start = current;
+        points.push(current);
+        // Further coordinate pairs are implicit lineto commands
+        command = relative ? 'l' : 'L';
+        lastControl = null;
+        break;
+      }
+      case 'L':
+        current = offset([next(), next()]);
+        points.push(current);
+        lastControl = null;
+        break;
+      case 'H':
+        current = [relative ? current[0] + next() : next(), current[1]];
+        points.push(current);
+        lastControl = null;
+        break;
+      case 'V':
+        current = [current[0], relative ? current[1] + next() : next()];
+        points.push(current);
+        lastControl = null;
+        break;
+      case 'C':
+      case 'S': {
+        const control1: Point = upper === 'C'
+          ? offset([next(), next()])
+          : (lastControl && /[CS]/i.test(lastCommand)
+            ? [2 * current[0] - lastControl[0], 2 * current[1] - lastControl[1]]
+            : current);
+        const control2 = offset([next(), next()]);
+        const end = offset([next(), next()]);
+        if (points.length === 0) points.push(current);
+        for (let i = 1; i <= CURVE_STEPS; i++) {
+          points.push(cubicPoint(current, control1, control2, end, i / CURVE_STEPS));
+        }
+        lastControl = control2;
+        current = end;
+        break;
+      }
+      case 'Q':
+      case 'T': {
+        const control: Point = upper === 'Q'
+          ? offset([next(), next()])
+          : (lastControl && /[QT]/i.test(lastCommand)
+            ? [2 * current[0] - lastControl[0], 2 * current[1] - lastControl[1]]
+            : current);
+        const end = offset([next(), next()]);
+        if (points.length === 0) points.push(current);
+        for (let i = 1; i <= CURVE_STEPS; i++) {
+          points.push(quadraticPoint(current, control, end, i / CURVE_STEPS));
+        }
+        lastControl = control;
+        current = end;
+        break;
+      }
+      case 'A': {
+        const [rx, ry, angle, largeArc, sweep] = [next(), next(), next(), next(), next()];
+        const end = offset([next(), next()]);
+        if (points.length === 0) points.push(current);
+        points.push(...arcPoints(current, rx, ry, angle, largeArc !== 0, sweep !== 0, end));
+        current = end;
+        lastControl = null;
+        break;
+      }
+      default:
+        index++;
+    }
+
+    if (points.some(([x, y]) => !Number.isFinite(x) || !Number.isFinite(y))) {
+      // Truncated coordinates: drop this subpath
+      points = [];
+      break;
+    }
+    lastCommand = command;
+  }
+
+  finish();
+  return subpaths;
+}
+
+/**
+ * Convert an SVG document to a single-page project.
+ * Throws if the source is not a well-formed SVG document.
+ */
+export function importSvg(source: string): ImportedProject {
+  const document = new DOMParser({ onError: onErrorStopParsing }).parseFromString(source, 'image/svg+xml');
+  const root = document.documentElement;
+
+  if (!root || root.localName !== 'svg') {
+    throw new Error('Not an SVG document');
+  }
+
+  const viewBox = parseNumberList(root.getAttribute('viewBox') || '');
+  const hasViewBox = viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0;
+  const width = hasViewBox ? viewBox[2] : parseLength(root.getAttribute('width'), DEFAULT_CANVAS_WIDTH);
+  const height = hasViewBox ? viewBox[3] : parseLength(root.getAttribute('height'), DEFAULT_CANVAS_HEIGHT);
+
+  // The canvas uses viewBox units, with the viewBox origin moved to 0,0
+  const rootMatrix: Matrix = hasViewBox ? [1, 0, 0, 1, -viewBox[0], -viewBox[1]] : IDENTITY;
+
+  const importer = new SvgImporter();
+  importer.visit(root, DEFAULT_STYLE, rootMatrix);
+
+  const titleNode = Array.from(root.childNodes as any as ArrayLike<any>)
+    .find((child: any) => child.nodeType === 1 && child.localName === 'title');
+  const title = titleNode?.textContent?.trim() || null;
+
+  return {
+    title,
+    projectData: {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      elements: [],
+      pages: [{ id: uuidv4(), name: 'Page 1', elements: importer.elements }],
+      settings: {
+        canvasWidth: width > 0 ? width : DEFAULT_CANVAS_WIDTH,
+        canvasHeight: height > 0 ? height : DEFAULT_CANVAS_HEIGHT
+      }
+    },
+    images: importer.images,
+    warnings: importer.getWarnings()
+  };
+}
@@ -0,0 +1,372 @@
+import { ProjectData, Element } from '../types';
+
+/**
+ * Renders ProjectData pages to standalone SVG documents.
+ *
+ * Element coordinates are in canvas pixels; `rotation` is in degrees around the
+ * element's centre. Line and draw `points` are flat [x1, y1, x2, y2, ...] lists
+ * relative to the element's position.
+ */
+
+export const DEFAULT_CANVAS_WIDTH = 1920;
+export const DEFAULT_CANVAS_HEIGHT = 1080;
+const DEFAULT_BACKGROUND_COLOR = '#ffffff';
+const DEFAULT_FONT_SIZE = 16;
+const DEFAULT_LINE_HEIGHT = 1.2;
+const DEFAULT_STROKE_WIDTH = 2;
+
+export interface ExportPage {
+  id: string;
+  name: string;
+  elements: Element[];
+  width: number;
+  height: number;
+  backgroundColor: string;
+}
+
+export interface SvgRenderOptions {
+  // href for an image element (asset URL or data URI); null leaves the image out
+  resolveImage?: (element: Element) => string | null;
+}
+
+function escapeXml(value: unknown): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+/**
+ * Build an attribute string, skipping undefined/null values
+ */
+function attributes(values: Record<string, unknown>): string {
+  return Object.entries(values)
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([name, value]) => ` ${name}="${escapeXml(isFiniteNumber(value) ? formatNumber(value) : value)}"`)
+    .join('');
+}
+
+/**
+ * Pages to export: the document's pages, or its top-level elements as a single
+ * page for documents without pages
+ */
+export function getExportPages(projectData: ProjectData): ExportPage[] {
+  const settings = projectData.settings;
+  const width = isFiniteNumber(settings?.canvasWidth) && settings!.canvasWidth > 0
+    ? settings!.canvasWidth
+    : DEFAULT_CANVAS_WIDTH;
+  const height = isFiniteNumber(settings?.canvasHeight) && settings!.canvasHeight > 0
+    ? settings!.canvasHeight
+    : DEFAULT_CANVAS_HEIGHT;
+  const backgroundColor = settings?.backgroundColor || DEFAULT_BACKGROUND_COLOR;
+
+  if (Array.isArray(projectData.pages) && projectData.pages.length > 0) {
+    return projectData.pages.map(page => ({
+      id: page.id,
+      name: page.name,
+      elements: Array.isArray(page.elements) ? page.elements : [],
+      width,
+      height,
+      backgroundColor
+    }));
+  }
+
+  return [{
+    id: 'main',
+    name: 'Page 1',
+    elements: Array.isArray(projectData.elements) ? projectData.elements : [],
+    width,
+    height,
+    backgroundColor
+  }];
+}
+
+/**
+ * Find a page by id or by 1-based page number
+ */
+export function findExportPage(pages: ExportPage[], page?: string): ExportPage | null {
+  if (!page) {
+    return pages[0] || null;
+  }
+
+  const byId = pages.find(candidate => candidate.id === page);
+  if (byId) {
+    return byId;
+  }
+
+  const pageNumber = Number(page);
+  return Number.isInteger(pageNumber) && pageNumber >= 1 && pageNumber <= pages.length
+    ? pages[pageNumber - 1]
+    : null;
+}
+
+function toPointPairs(points: unknown): Array<[number, number]> {
+  if (!Array.isArray(points)) {
+    return [];
+  }
+
+  const pairs: Array<[number, number]> = [];
+  for (let i = 0; i + 1 < points.length; i += 2) {
+    if (isFiniteNumber(points[i]) && isFiniteNumber(points[i + 1])) {
+      pairs.push([points[i], points[i + 1]]);
+    }
+  }
+  return pairs;
+}
+
+function strokeAttributes(properties: any): Record<string, unknown> {
+  return {
+    stroke: properties.stroke,
+    'stroke-width': properties.stroke
+      ? (isFiniteNumber(properties.strokeWidth) ? properties.strokeWidth : DEFAULT_STROKE_WIDTH)
+      : undefined
+  };
+}
+
+function regularPolygonPoints(sides: number, width: number, height: number, rotationOffset = -Math.PI / 2): string {
+  const points: string[] = [];
+  for (let i = 0; i < sides; i++) {
+    const angle = rotationOffset + (i * 2 * Math.PI) / sides;
+    points.push(`${formatNumber(width / 2 + (width / 2) * Math.cos(angle))},${formatNumber(height / 2 + (height / 2) * Math.sin(angle))}`);
+  }
+  return points.join(' ');
+}
+
+function starPoints(width: number, height: number, spikes = 5, innerRatio = 0.5): string {
+  const points: string[] = [];
+  for (let i = 0; i < spikes * 2; i++) {
+    const ratio = i % 2 === 0 ? 1 : innerRatio;
+    const angle = -Math.PI / 2 + (i * Math.PI) / spikes;
+    points.push(`${formatNumber(width / 2 + (width / 2) * ratio * Math.cos(angle))},${formatNumber(height / 2 + (height / 2) * ratio * Math.sin(angle))}`);
+  }
+  return points.join(' ');
+}
+
+function renderShape(element: Element): string {
+  const properties = element.properties || {};
+  const { width, height } = element;
+  const paint = { fill: properties.fill, ...strokeAttributes(properties) };
+
+  switch (String(properties.shapeType || 'rectangle').toLowerCase()) {
+    case 'circle':
+    case 'ellipse':
+      return `<ellipse${attributes({ cx: width / 2, cy: height / 2, rx: width / 2, ry: height / 2, ...paint })}/>`;
+    case 'triangle':
+      return `<polygon${attributes({ points: `${formatNumber(width / 2)},0 ${formatNumber(width)},${formatNumber(height)} 0,${formatNumber(height)}`, ...paint })}/>`;
+    case 'diamond':
+      return `<polygon${attributes({ points: regularPolygonPoints(4, width, height), ...paint })}/>`;
+    case 'pentagon':
+      return `<polygon${attributes({ points: regularPolygonPoints(5, width, height), ...paint })}/>`;
+    case 'hexagon':
+      return `<polygon${attributes({ points: regularPolygonPoints(6, width, height, 0), ...paint })}/>`;
+    case 'polygon': {
+      const sides = Number.isInteger(properties.sides) && properties.sides >= 3 ? properties.sides : 6;
+      return `<polygon${attributes({ points: regularPolygonPoints(sides, width, height), ...paint })}/>`;
+    }
+    case 'star':
+      return `<polygon${attributes({ points: starPoints(width, height, Number.isInteger(properties.points) && properties.points >= 3 ? properties.points : 5), ...paint })}/>`;
+    default:
+      return `<rect${attributes({
+        width,
+        height,
+        rx: isFiniteNumber(properties.cornerRadius) ? properties.cornerRadius : undefined,
+        ...paint
+      })}/>`;
+  }
+}
+
+function renderText(element: Element): string {
+  const properties = element.properties || {};
+  const fontSize = isFiniteNumber(properties.fontSize) ? properties.fontSize : DEFAULT_FONT_SIZE;
+  const lineHeight = fontSize * (isFiniteNumber(properties.lineHeight) ? properties.lineHeight : DEFAULT_LINE_HEIGHT);
+
+  const anchors: Record<string, { anchor: string; x: number }> = {
+    left: { anchor: 'start', x: 0 },
+    justify: { anchor: 'start', x: 0 },
+    center: { anchor: 'middle', x: element.width / 2 },
+    right: { anchor: 'end', x: element.width }
+  };
+  const { anchor, x } = anchors[properties.textAlign] || anchors.left;
+
+  const lines = String(properties.text ?? '').split('\n');
+  const tspans = lines
+    .map((line, index) =>
+      `<tspan${attributes({ x, y: fontSize + index * lineHeight })}>${escapeXml(line)}</tspan>`
+    )
+    .join('');
+
+  return `<text${attributes({
+    'font-size': fontSize,
+    'font-family': properties.fontFamily,
+    'font-weight': properties.fontWeight,
+    'font-style': properties.fontStyle,
+    'letter-spacing': isFiniteNumber(properties.letterSpacing) ? properties.letterSpacing : undefined,
+    'text-anchor': anchor,
+    fill: properties.color || '#000000',
+    'xml:space': 'preserve'
+  })}>${tspans}</text>`;
+}
+
+function renderImage(element: Element, options: SvgRenderOptions): string {
+  const href = options.resolveImage ? options.resolveImage(element) : null;
+  if (!href) {
+    return '';
+  }
+
+  const fits: Record<string, string> = {
+    contain: 'xMidYMid meet',
+    cover: 'xMidYMid slice',
+    fill: 'none'
+  };
+
+  return `<image${attributes({
+    width: element.width,
+    height: element.height,
+    // xlink:href rather than SVG 2 href, for older design tools
+    'xlink:href': href,
+    preserveAspectRatio: fits[element.properties?.objectFit] || 'none'
+  })}/>`;
+}
+
+function renderLine(element: Element, markerIds: { start: string; end: string }): string {
+  const properties = element.properties || {};
+  const points = toPointPairs(properties.points);
+  if (points.length < 2) {
+    return '';
+  }
+
+  const stroke = properties.stroke || '#000000';
+  return `<polyline${attributes({
+    points: points.map(([x, y]) => `${formatNumber(x)},${formatNumber(y)}`).join(' '),
+    fill: 'none',
+    stroke,
+    'stroke-width': isFiniteNumber(properties.strokeWidth) ? properties.strokeWidth : DEFAULT_STROKE_WIDTH,
+    'stroke-dasharray': Array.isArray(properties.dash) && properties.dash.length > 0 ? properties.dash.join(' ') : undefined,
+    'stroke-linecap': 'round',
+    'marker-start': properties.arrowStart ? `url(#${markerIds.start})` : undefined,
+    'marker-end': properties.arrowEnd ? `url(#${markerIds.end})` : undefined
+  })}/>`;
+}
+
+/**
+ * Freehand strokes; with tension > 0 the points are joined by quadratic curves through their midpoints
+ */
+function renderDraw(element: Element): string {
+  const properties = element.properties || {};
+  const points = toPointPairs(properties.points);
+  if (points.length === 0) {
+    return '';
+  }
+
+  const point = ([x, y]: [number, number]) => `${formatNumber(x)} ${formatNumber(y)}`;
+  let path = `M ${point(points[0])}`;
+
+  if (points.length === 1) {
+    path += ` L ${point(points[0])}`;
+  } else if (isFiniteNumber(properties.tension) && properties.tension > 0 && points.length > 2) {
+    for (let i = 1; i < points.length - 1; i++) {
+      const midpoint: [number, number] = [
+        (points[i][0] + points[i + 1][0]) / 2,
+        (points[i][1] + points[i + 1][1]) / 2
+      ];
+      path += ` Q ${point(points[i])} ${point(midpoint)}`;
+    }
+    path += ` L ${point(points[points.length - 1])}`;
+  } else {
+    path += points.slice(1).map(pair => ` L ${point(pair)}`).join('');
+  }
+
+  return `<path${attributes({
+    d: path,
+    fill: 'none',
+    stroke: properties.stroke || '#000000',
+    'stroke-width': isFiniteNumber(properties.strokeWidth) ? properties.strokeWidth : DEFAULT_STROKE_WIDTH,
+    'stroke-linecap': 'round',
+    'stroke-linejoin': 'round'
+  })}/>`;
+}
+
+function renderElement(element: Element, index: number, options: SvgRenderOptions): { body: string; defs: string } {
+  let body = '';
+  let defs = '';
+
+  switch (element.type) {
+    case 'text':
+      body = renderText(element);
+      break;
+    case 'shape':
+      body = renderShape(element);
+      break;
+    case 'image':
+      body = renderImage(element, options);
+      break;
+    case 'line': {
+      const markerIds = { start: `arrow-start-${index}`, end: `arrow-end-${index}` };
+      const color = element.properties?.stroke || '#000000';
+      if (element.properties?.arrowStart) {
+        defs += `<marker${attributes({ id: markerIds.start, viewBox: '0 0 10 10', refX: 5, refY: 5, markerWidth: 6, markerHeight: 6, orient: 'auto-start-reverse' })}><path${attributes({ d: 'M 0 0 L 10 5 L 0 10 z', fill: color })}/></marker>`;
+      }
+      if (element.properties?.arrowEnd) {
+        defs += `<marker${attributes({ id: markerIds.end, viewBox: '0 0 10 10', refX: 5, refY: 5, markerWidth: 6, markerHeight: 6, orient: 'auto' })}><path${attributes({ d: 'M 0 0 L 10 5 L 0 10 z', fill: color })}/></marker>`;
+      }
+      body = renderLine(element, markerIds);
+      break;
+    }
+    case 'draw':
+      body = renderDraw(element);
+      break;
+    default:
+      return { body: '', defs: '' };
+  }
+
+  if (!body) {
+    return { body: '', defs };
+  }
+
+  const x = isFiniteNumber(element.x) ? element.x : 0;
+  const y = isFiniteNumber(element.y) ? element.y : 0;
+  let transform = `translate(${formatNumber(x)} ${formatNumber(y)})`;
+  if (isFiniteNumber(element.rotation) && element.rotation !== 0) {
+    transform += ` rotate(${formatNumber(element.rotation)} ${formatNumber(element.width / 2)} ${formatNumber(element.height / 2)})`;
+  }
+
+  return {
+    body: `<g${attributes({
+      transform,
+      opacity: isFiniteNumber(element.opacity) && element.opacity < 1 ? element.opacity : undefined
+    })}>${body}</g>`,
+    defs
+  };
+}
+
+/**
+ * Render one page to a standalone SVG document
+ */
+export function renderPageToSvg(page: ExportPage, options: SvgRenderOptions = {}): string {
+  const rendered = page.elements.map((element, index) => renderElement(element, index, options));
+  const defs = rendered.map(result => result.defs).join('');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink"${attributes({
+      width: page.width,
+      height: page.height,
+      viewBox: `0 0 ${formatNumber(page.width)} ${formatNumber(page.height)}`
+    })}>`,
+    `<title>${escapeXml(page.name)}</title>`,
+    defs ? `<defs>${defs}</defs>` : '',
+    `<rect${attributes({ width: page.width, height: page.height, fill: page.backgroundColor })}/>`,
+    ...rendered.map(result => result.body).filter(body => body),
+    '</svg>'
+  ].join('\n');
+}
@@ -0,0 +1,105 @@
+import { DOMParser, XMLSerializer, onErrorStopParsing } from '@xmldom/xmldom';
+
+/**
+ * Sanitizing uploaded SVGs, which are rendered inline on boards. Anything that
+ * can run script or load external resources is removed; the drawing itself
+ * is kept.
+ */
+
+// Elements that run script, embed other documents or can't be made safe
+const FORBIDDEN_ELEMENTS = new Set([
+  'script', 'foreignobject', 'iframe', 'embed', 'object', 'handler', 'listener', 'audio', 'video', 'canvas'
+]);
+
+// Animation elements, which can rewrite links and handlers after sanitizing
+const ANIMATION_ELEMENTS = new Set(['set', 'animate', 'animatemotion', 'animatetransform', 'discard']);
+
+// The only sources kept in links: references within the document and embedded raster images
+const SAFE_LINK = /^(#|data:image\/(png|jpe?g|gif|webp);base64,)/i;
+
+// url(...) that does not point inside the document
+const EXTERNAL_URL = /url\(\s*(?!['"]?#)[^)]*\)/gi;
+const HAS_EXTERNAL_URL = /url\(\s*(?!['"]?#)/i;
+
+function sanitizeCss(css: string): string {
+  return css
+    .replace(/@import[^;]*;?/gi, '')
+    .replace(EXTERNAL_URL, 'none')
+    .replace(/expression\s*\(/gi, '')
+    .replace(/javascript:/gi, '');
+}
+
+function sanitizeElement(element: any): void {
+  // Copy, because the list shrinks while removing
+  const attributes = Array.from(element.attributes as ArrayLike<any>);
+
+  for (const attribute of attributes) {
+    const name = String(attribute.name).toLowerCase();
+    const localName = String(attribute.localName || attribute.name).toLowerCase();
+    const value = String(attribute.value);
+
+    if (localName.startsWith('on')) {
+      element.removeAttributeNode(attribute);
+    } else if (localName === 'href' || localName === 'src' || name === 'xml:base') {
+      if (!SAFE_LINK.test(value.trim())) {
+        element.removeAttributeNode(attribute);
+      }
+    } else if (name === 'style') {
+      element.setAttribute('style', sanitizeCss(value));
+    } else if (HAS_EXTERNAL_URL.test(value)) {
+      // Paint and filter references (fill="url(...)") may only point inside the document
+      element.setAttribute(attribute.name, value.replace(EXTERNAL_URL, 'none'));
+    }
+  }
+}
+
+function sanitizeNode(node: any): void {
+  const children = Array.from(node.childNodes as ArrayLike<any>);
+
+  for (const child of children) {
+    switch (child.nodeType) {
+      case 1: {
+        const tag = String(child.localName || child.nodeName).toLowerCase();
+        const animatesLinks = ANIMATION_ELEMENTS.has(tag) &&
+          /^(on|href$|xlink:href$)/i.test(child.getAttribute('attributeName') || '');
+
+        if (FORBIDDEN_ELEMENTS.has(tag) || animatesLinks || child.namespaceURI === 'http://www.w3.org/1999/xhtml') {
+          node.removeChild(child);
+        } else if (tag === 'style') {
+          child.textContent = sanitizeCss(child.textContent || '');
+        } else {
+          sanitizeElement(child);
+          sanitizeNode(child);
+        }
+        break;
+      }
+      // Processing instructions (xml-stylesheet) and doctypes (entities) are dropped
+      case 7:
+      case 10:
+        node.removeChild(child);
+        break;
+    }
+  }
+}
+
+/**
+ * Remove scripts, event handlers and external references from an SVG document.
+ * Throws if the source is not a well-formed SVG document.
+ */
+export function sanitizeSvg(source: string): string {
+  if (/<!ENTITY/i.test(source)) {
+    throw new Error('SVG documents may not declare entities');
+  }
+
+  const document = new DOMParser({ onError: onErrorStopParsing }).parseFromString(source, 'image/svg+xml');
+  const root = document.documentElement;
+
+  if (!root || root.localName !== 'svg') {
+    throw new Error('Not an SVG document');
+  }
+
+  sanitizeElement(root);
+  sanitizeNode(document);
+
+  return new XMLSerializer().serializeToString(document);
+}
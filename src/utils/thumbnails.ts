@@ -0,0 +1,121 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Asset } from '@prisma/client';
+import { prisma } from '../config/database';
+import { ProjectData } from '../types';
+import { saveFile } from '../storage/assetStorage';
+import { createImageResolver, loadEmbeddedAssets } from './boardImages';
+import { migrateProjectData } from './projectMigrations';
+import { decodeBoardState } from './projectState';
+import { renderSvgToPng } from './rasterExport';
+import { getExportPages, renderPageToSvg } from './svgRenderer';
+
+/**
+ * Server-rendered previews of a board's first page, stored as PNGs next to the board's assets.
+ */
+
+const THUMBNAIL_WIDTH = 400;
+
+// While a board is edited live, its thumbnail is refreshed at most this often
+export const LIVE_THUMBNAIL_DELAY_MS = 30 * 1000;
+
+interface ScheduledThumbnail {
+  timer: NodeJS.Timeout;
+  dueAt: number;
+}
+
+const scheduledThumbnails = new Map<string, ScheduledThumbnail>();
+
+// Boards being rendered, and boards that changed again while rendering
+const renderingBoards = new Set<string>();
+const staleBoards = new Set<string>();
+
+/**
+ * Render the first page of a document as a thumbnail-sized PNG
+ */
+export async function renderThumbnail(projectData: ProjectData, assets: Asset[]): Promise<Buffer> {
+  const [page] = getExportPages(projectData);
+  const embedded = await loadEmbeddedAssets([page], assets);
+  const svg = renderPageToSvg(page, {
+    resolveImage: createImageResolver(assets, embedded, false)
+  });
+
+  const scale = Math.min(1, THUMBNAIL_WIDTH / page.width);
+  return Buffer.from(await renderSvgToPng(svg, scale));
+}
+
+/**
+ * Render and store a thumbnail for a board version snapshot; returns its URL
+ */
+export async function createVersionThumbnail(boardId: string, yDocState: Uint8Array): Promise<string> {
+  const board = await prisma.board.findUniqueOrThrow({
+    where: { id: boardId },
+    select: { isPublic: true, assets: true }
+  });
+  const { projectData } = migrateProjectData(decodeBoardState(yDocState));
+
+  const png = await renderThumbnail(projectData, board.assets);
+  return saveFile(`boards/${boardId}/thumbnails/version-${uuidv4()}.png`, png, 'image/png', board.isPublic);
+}
+
+/**
+ * Render the board's current stored state and make it the board thumbnail
+ */
+export async function refreshBoardThumbnail(boardId: string): Promise<void> {
+  if (renderingBoards.has(boardId)) {
+    staleBoards.add(boardId);
+    return;
+  }
+
+  renderingBoards.add(boardId);
+  try {
+    const board = await prisma.board.findUnique({
+      where: { id: boardId },
+      select: { yDocState: true, lastModified: true, isPublic: true, assets: true }
+    });
+    if (!board) return;
+
+    const { projectData } = migrateProjectData(decodeBoardState(board.yDocState));
+    const png = await renderThumbnail(projectData, board.assets);
+    const url = await saveFile(`boards/${boardId}/thumbnails/board.png`, png, 'image/png', board.isPublic);
+
+    await prisma.board.update({
+      where: { id: boardId },
+      data: {
+        // The file is overwritten in place, so the URL changes to bust caches
+        thumbnail: `${url}?v=${Date.now()}`,
+        // A new preview is not an edit (lastModified is @updatedAt)
+        lastModified: board.lastModified
+      }
+    });
+  } catch (error) {
+    console.error(`Error generating thumbnail for board ${boardId}:`, error);
+  } finally {
+    renderingBoards.delete(boardId);
+    if (staleBoards.delete(boardId)) {
+      scheduleBoardThumbnail(boardId, 0);
+    }
+  }
+}
+
+/**
+ * Refresh a board's thumbnail after `delayMs`. An earlier pending refresh is
+ * kept, so continuous edits still produce a thumbnail every `delayMs`.
+ */
+export function scheduleBoardThumbnail(boardId: string, delayMs: number = LIVE_THUMBNAIL_DELAY_MS): void {
+  const dueAt = Date.now() + delayMs;
+  const scheduled = scheduledThumbnails.get(boardId);
+
+  if (scheduled) {
+    if (scheduled.dueAt <= dueAt) return;
+    clearTimeout(scheduled.timer);
+  }
+
+  const timer = setTimeout(() => {
+    scheduledThumbnails.delete(boardId);
+    refreshBoardThumbnail(boardId);
+  }, delayMs);
+  // Pending thumbnails never keep the process alive
+  timer.unref();
+
+  scheduledThumbnails.set(boardId, { timer, dueAt });
+}
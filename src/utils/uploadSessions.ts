@@ -0,0 +1,182 @@
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+import { UploadSession } from '@prisma/client';
+import { prisma } from '../config/database';
+import { deleteFile, openFile } from '../storage/assetStorage';
+
+/**
+ * Resumable uploads of large files (videos, PDFs). A client opens an upload
+ * session, sends the file in chunks of a fixed size, in any order and over as
+ * many connections as it needs, and completes the session once every chunk is
+ * stored. Chunks are kept in storage, not in memory, until they are joined.
+ */
+
+const MB = 1024 * 1024;
+
+function readSizeMB(name: string, defaultMB: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : defaultMB;
+}
+
+// File sizes are stored as 32-bit integers
+const MAX_STORED_FILE_SIZE = 2 ** 31 - 1;
+
+// Largest file accepted through an upload session
+export const MAX_UPLOAD_SIZE_BYTES = Math.min(
+  Math.floor(readSizeMB('MAX_UPLOAD_SIZE_MB', 500) * MB),
+  MAX_STORED_FILE_SIZE
+);
+
+// Size of every chunk but the last
+export const UPLOAD_CHUNK_SIZE_BYTES = Math.floor(readSizeMB('UPLOAD_CHUNK_SIZE_MB', 5) * MB);
+
+// Sessions without a new chunk for this long are abandoned and removed
+export const UPLOAD_SESSION_TTL_MS = Number(process.env.UPLOAD_SESSION_TTL_HOURS || 24) * 60 * 60 * 1000;
+
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+let cleanupTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Storage path of a chunk
+ */
+export function getChunkRef(sessionId: string, index: number): string {
+  return `uploads/${sessionId}/${index}`;
+}
+
+export function getChunkCount(session: Pick<UploadSession, 'fileSize' | 'chunkSize'>): number {
+  return Math.max(1, Math.ceil(session.fileSize / session.chunkSize));
+}
+
+/**
+ * Byte size chunk `index` must have; the last chunk holds the remainder
+ */
+export function getExpectedChunkSize(session: Pick<UploadSession, 'fileSize' | 'chunkSize'>, index: number): number {
+  return Math.min(session.chunkSize, session.fileSize - index * session.chunkSize);
+}
+
+/**
+ * Expiry of a session that just received data
+ */
+export function getUploadExpiry(): Date {
+  return new Date(Date.now() + UPLOAD_SESSION_TTL_MS);
+}
+
+/**
+ * The uploaded file, streamed chunk by chunk in order
+ */
+export function streamUpload(session: Pick<UploadSession, 'id' | 'fileSize' | 'chunkSize'>): Readable {
+  async function* chunks() {
+    for (let index = 0; index < getChunkCount(session); index++) {
+      const chunk = await openFile(getChunkRef(session.id, index));
+      if (!chunk) {
+        throw new Error(`Chunk ${index} of upload ${session.id} is missing`);
+      }
+      yield* chunk.stream;
+    }
+  }
+
+  return Readable.from(chunks(), { objectMode: false });
+}
+
+/**
+ * The first `length` bytes of the uploaded file, to detect its type
+ */
+export async function readUploadHead(session: Pick<UploadSession, 'id' | 'fileSize' | 'chunkSize'>, length: number): Promise<Buffer> {
+  const parts: Buffer[] = [];
+  let size = 0;
+
+  const stream = streamUpload(session);
+  for await (const part of stream) {
+    parts.push(Buffer.from(part));
+    size += part.length;
+    if (size >= length) break;
+  }
+  stream.destroy();
+
+  return Buffer.concat(parts).subarray(0, length);
+}
+
+/**
+ * The whole uploaded file in memory, for files that are processed before storing
+ */
+export async function readUpload(session: Pick<UploadSession, 'id' | 'fileSize' | 'chunkSize'>): Promise<Buffer> {
+  const parts: Buffer[] = [];
+  for await (const part of streamUpload(session)) {
+    parts.push(Buffer.from(part));
+  }
+  return Buffer.concat(parts);
+}
+
+/**
+ * SHA-256 of the uploaded file (see hashFileContents), computed without holding it in memory
+ */
+export async function hashUpload(session: Pick<UploadSession, 'id' | 'fileSize' | 'chunkSize'>): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const part of streamUpload(session)) {
+    hash.update(part);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Remove a session with its stored chunks
+ */
+export async function deleteUploadSession(sessionId: string): Promise<void> {
+  const chunks = await prisma.uploadChunk.findMany({
+    where: { sessionId },
+    select: { index: true }
+  });
+
+  for (const { index } of chunks) {
+    try {
+      await deleteFile(getChunkRef(sessionId, index));
+    } catch (error) {
+      console.warn('Failed to delete upload chunk from storage:', error);
+    }
+  }
+
+  await prisma.uploadSession.deleteMany({ where: { id: sessionId } });
+}
+
+/**
+ * Remove sessions that expired without being completed; returns how many were removed
+ */
+export async function cleanupExpiredUploads(): Promise<number> {
+  const expired = await prisma.uploadSession.findMany({
+    where: { expiresAt: { lt: new Date() } },
+    select: { id: true }
+  });
+
+  for (const { id } of expired) {
+    await deleteUploadSession(id);
+  }
+
+  return expired.length;
+}
+
+/**
+ * Periodically remove abandoned upload sessions
+ */
+export function startUploadCleanup(): void {
+  if (cleanupTimer) return;
+
+  cleanupTimer = setInterval(async () => {
+    try {
+      const removed = await cleanupExpiredUploads();
+      if (removed > 0) {
+        console.log(`🧹 Removed ${removed} abandoned upload session(s)`);
+      }
+    } catch (error) {
+      console.error('Error cleaning up upload sessions:', error);
+    }
+  }, CLEANUP_INTERVAL_MS);
+  cleanupTimer.unref();
+}
+
+export function stopUploadCleanup(): void {
+  if (cleanupTimer) {
+    clearInterval(cleanupTimer);
+    cleanupTimer = null;
+  }
+}
@@ -1,3 +1,5 @@
+import { CURRENT_SCHEMA_VERSION } from './projectMigrations';
+
 export function validateEmail(email: string): boolean {
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
   return emailRegex.test(email);
@@ -7,16 +9,274 @@ export function validateBoardTitle(title: string): boolean {
   return title.trim().length > 0 && title.length <= 200;
 }
 
-export function validateProjectData(data: any): boolean {
-  if (!data || typeof data !== 'object') {
-    return false;
+export interface ValidationError {
+  path: string;
+  message: string;
+}
+
+// Stop collecting after this many errors so a badly broken document doesn't produce a huge response
+const MAX_VALIDATION_ERRORS = 50;
+
+const ELEMENT_TYPES = ['text', 'shape', 'image', 'line', 'draw'];
+const TEXT_ALIGNMENTS = ['left', 'center', 'right', 'justify'];
+
+type FieldCheck = (value: any) => string | null;
+
+const isObject = (value: any): boolean =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const isFiniteNumber = (value: any): boolean =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const checks = {
+  string: (value: any) => typeof value === 'string' ? null : 'must be a string',
+  nonEmptyString: (value: any) =>
+    typeof value === 'string' && value.trim().length > 0 ? null : 'must be a non-empty string',
+  boolean: (value: any) => typeof value === 'boolean' ? null : 'must be a boolean',
+  number: (value: any) => isFiniteNumber(value) ? null : 'must be a finite number',
+  nonNegative: (value: any) =>
+    isFiniteNumber(value) && value >= 0 ? null : 'must be a number greater than or equal to 0',
+  positive: (value: any) => isFiniteNumber(value) && value > 0 ? null : 'must be a number greater than 0',
+  opacity: (value: any) =>
+    isFiniteNumber(value) && value >= 0 && value <= 1 ? null : 'must be a number between 0 and 1',
+  oneOf: (allowed: string[]): FieldCheck => (value: any) =>
+    allowed.includes(value) ? null : `must be one of: ${allowed.join(', ')}`,
+  stringOrNumber: (value: any) =>
+    typeof value === 'string' || isFiniteNumber(value) ? null : 'must be a string or a number',
+  numberArray: (value: any) =>
+    Array.isArray(value) && value.every(isFiniteNumber) ? null : 'must be an array of finite numbers',
+  points: (minPoints: number): FieldCheck => (value: any) => {
+    if (!Array.isArray(value) || !value.every(isFiniteNumber)) {
+      return 'must be an array of finite numbers';
+    }
+    if (value.length % 2 !== 0) {
+      return 'must contain x,y pairs';
+    }
+    return value.length >= minPoints * 2 ? null : `must contain at least ${minPoints} point(s)`;
+  },
+  schemaVersion: (value: any) =>
+    Number.isInteger(value) && value >= 1 && value <= CURRENT_SCHEMA_VERSION
+      ? null
+      : `must be an integer between 1 and ${CURRENT_SCHEMA_VERSION}`,
+  rect: (value: any) =>
+    isObject(value) && ['x', 'y', 'width', 'height'].every(key => isFiniteNumber(value[key]))
+      ? null
+      : 'must be an object with numeric x, y, width and height'
+};
+
+interface FieldSpec {
+  check: FieldCheck;
+  required?: boolean;
+}
+
+type ObjectSpec = Record<string, FieldSpec>;
+
+// Fields the editor relies on for each element type; other properties are passed through
+const ELEMENT_PROPERTY_SPECS: Record<string, ObjectSpec> = {
+  text: {
+    text: { check: checks.string, required: true },
+    fontSize: { check: checks.positive },
+    fontFamily: { check: checks.string },
+    fontWeight: { check: checks.stringOrNumber },
+    fontStyle: { check: checks.string },
+    textAlign: { check: checks.oneOf(TEXT_ALIGNMENTS) },
+    color: { check: checks.string },
+    lineHeight: { check: checks.positive },
+    letterSpacing: { check: checks.number }
+  },
+  shape: {
+    shapeType: { check: checks.nonEmptyString },
+    fill: { check: checks.string },
+    stroke: { check: checks.string },
+    strokeWidth: { check: checks.nonNegative },
+    cornerRadius: { check: checks.nonNegative }
+  },
+  image: {
+    src: { check: checks.nonEmptyString, required: true },
+    assetId: { check: checks.string },
+    alt: { check: checks.string },
+    crop: { check: checks.rect }
+  },
+  line: {
+    points: { check: checks.points(2), required: true },
+    stroke: { check: checks.string },
+    strokeWidth: { check: checks.nonNegative },
+    dash: { check: checks.numberArray },
+    arrowStart: { check: checks.boolean },
+    arrowEnd: { check: checks.boolean }
+  },
+  draw: {
+    points: { check: checks.points(1), required: true },
+    stroke: { check: checks.string },
+    strokeWidth: { check: checks.nonNegative },
+    tension: { check: checks.nonNegative }
+  }
+};
+
+const ELEMENT_SPEC: ObjectSpec = {
+  id: { check: checks.nonEmptyString, required: true },
+  type: { check: checks.oneOf(ELEMENT_TYPES), required: true },
+  x: { check: checks.number, required: true },
+  y: { check: checks.number, required: true },
+  width: { check: checks.nonNegative, required: true },
+  height: { check: checks.nonNegative, required: true },
+  rotation: { check: checks.number },
+  opacity: { check: checks.opacity },
+  locked: { check: checks.boolean }
+};
+
+const PAGE_SPEC: ObjectSpec = {
+  id: { check: checks.nonEmptyString, required: true },
+  name: { check: checks.string, required: true }
+};
+
+const SETTINGS_SPEC: ObjectSpec = {
+  canvasWidth: { check: checks.positive, required: true },
+  canvasHeight: { check: checks.positive, required: true },
+  backgroundColor: { check: checks.string },
+  gridEnabled: { check: checks.boolean },
+  snapToGrid: { check: checks.boolean }
+};
+
+const PROJECT_META_SPEC: ObjectSpec = {
+  schemaVersion: { check: checks.schemaVersion },
+  title: { check: checks.string },
+  description: { check: checks.string }
+};
+
+class ValidationCollector {
+  errors: ValidationError[] = [];
+
+  add(path: string, message: string): void {
+    if (this.errors.length < MAX_VALIDATION_ERRORS) {
+      this.errors.push({ path, message });
+    }
+  }
+
+  get full(): boolean {
+    return this.errors.length >= MAX_VALIDATION_ERRORS;
+  }
+
+  checkObject(value: any, path: string, spec: ObjectSpec): void {
+    Object.entries(spec).forEach(([key, field]) => {
+      const fieldPath = `${path}.${key}`;
+      if (value[key] === undefined || value[key] === null) {
+        if (field.required) {
+          this.add(fieldPath, 'is required');
+        }
+        return;
+      }
+
+      const message = field.check(value[key]);
+      if (message) {
+        this.add(fieldPath, message);
+      }
+    });
+  }
+
+  checkElements(elements: any, path: string): void {
+    if (!Array.isArray(elements)) {
+      this.add(path, 'must be an array');
+      return;
+    }
+
+    const seenIds = new Set<string>();
+    elements.forEach((element, index) => {
+      if (this.full) return;
+
+      const elementPath = `${path}[${index}]`;
+      if (!isObject(element)) {
+        this.add(elementPath, 'must be an object');
+        return;
+      }
+
+      this.checkObject(element, elementPath, ELEMENT_SPEC);
+
+      if (typeof element.id === 'string') {
+        if (seenIds.has(element.id)) {
+          this.add(`${elementPath}.id`, `duplicates element id "${element.id}"`);
+        }
+        seenIds.add(element.id);
+      }
+
+      if (!isObject(element.properties)) {
+        this.add(`${elementPath}.properties`, 'must be an object');
+      } else if (ELEMENT_PROPERTY_SPECS[element.type]) {
+        this.checkObject(element.properties, `${elementPath}.properties`, ELEMENT_PROPERTY_SPECS[element.type]);
+      }
+    });
   }
-  
-  if (!Array.isArray(data.elements) && !Array.isArray(data.pages)) {
-    return false;
+
+  checkPages(pages: any, path: string): void {
+    if (!Array.isArray(pages)) {
+      this.add(path, 'must be an array');
+      return;
+    }
+
+    const seenIds = new Set<string>();
+    pages.forEach((page, index) => {
+      if (this.full) return;
+
+      const pagePath = `${path}[${index}]`;
+      if (!isObject(page)) {
+        this.add(pagePath, 'must be an object');
+        return;
+      }
+
+      this.checkObject(page, pagePath, PAGE_SPEC);
+
+      if (typeof page.id === 'string') {
+        if (seenIds.has(page.id)) {
+          this.add(`${pagePath}.id`, `duplicates page id "${page.id}"`);
+        }
+        seenIds.add(page.id);
+      }
+
+      this.checkElements(page.elements, `${pagePath}.elements`);
+    });
   }
-  
-  return true;
+}
+
+/**
+ * Check a ProjectData document (elements, pages, settings and per-type element
+ * properties). Returns one entry per problem with the path of the offending field,
+ * e.g. `projectData.pages[0].elements[2].properties.fontSize`.
+ */
+export function getProjectDataErrors(data: any, rootPath: string = 'projectData'): ValidationError[] {
+  const collector = new ValidationCollector();
+
+  if (!isObject(data)) {
+    collector.add(rootPath, 'must be an object');
+    return collector.errors;
+  }
+
+  if (data.elements === undefined && data.pages === undefined) {
+    collector.add(rootPath, 'must contain elements or pages');
+    return collector.errors;
+  }
+
+  if (data.elements !== undefined) {
+    collector.checkElements(data.elements, `${rootPath}.elements`);
+  }
+  if (data.pages !== undefined) {
+    collector.checkPages(data.pages, `${rootPath}.pages`);
+  }
+
+  if (data.settings !== undefined) {
+    if (!isObject(data.settings)) {
+      collector.add(`${rootPath}.settings`, 'must be an object');
+    } else {
+      collector.checkObject(data.settings, `${rootPath}.settings`, SETTINGS_SPEC);
+    }
+  }
+
+  collector.checkObject(data, rootPath, PROJECT_META_SPEC);
+
+  return collector.errors;
+}
+
+export function validateProjectData(data: any): boolean {
+  return getProjectDataErrors(data).length === 0;
 }
 
 export function sanitizeString(str: string): string {
@@ -31,7 +291,10 @@ export function validateFileType(mimetype: string): boolean {
     'image/gif',
     'image/webp',
     'image/svg+xml',
-    'application/pdf'
+    'application/pdf',
+    'video/mp4',
+    'video/quicktime',
+    'video/webm'
   ];
   return allowedTypes.includes(mimetype);
 }
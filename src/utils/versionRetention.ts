@@ -0,0 +1,43 @@
+/**
+ * Retention policy of automatic version snapshots: they are thinned out as
+ * they age (see autoVersions, which applies it)
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
+
+// Automatic snapshots younger than `maxAge` keep the newest one per `period`
+// (every snapshot without a period): all of the last hour, then hourly for a
+// day, daily for a month and weekly after that
+const RETENTION_TIERS: { maxAge: number; period: number | null }[] = [
+  { maxAge: HOUR_MS, period: null },
+  { maxAge: DAY_MS, period: HOUR_MS },
+  { maxAge: 30 * DAY_MS, period: DAY_MS },
+  { maxAge: Infinity, period: WEEK_MS }
+];
+
+/**
+ * Automatic snapshots (in any order) that the retention policy removes
+ */
+export function selectExpiredVersions(versions: { id: string; createdAt: Date }[], now: Date = new Date()): string[] {
+  const newestFirst = [...versions].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  const keptPeriods = new Set<string>();
+  const expired: string[] = [];
+
+  for (const version of newestFirst) {
+    const age = now.getTime() - version.createdAt.getTime();
+    const tier = RETENTION_TIERS.findIndex(({ maxAge }) => age < maxAge);
+    const { period } = RETENTION_TIERS[tier];
+    if (period === null) continue;
+
+    const key = `${tier}:${Math.floor(version.createdAt.getTime() / period)}`;
+    if (keptPeriods.has(key)) {
+      expired.push(version.id);
+    } else {
+      keptPeriods.add(key);
+    }
+  }
+
+  return expired;
+}
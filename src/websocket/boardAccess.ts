@@ -0,0 +1,69 @@
+import { prisma } from '../config/database';
+
+export interface BoardAccess {
+  hasAccess: boolean;
+  userRole: string;
+  dbUserId?: string;
+}
+
+/**
+ * Verify board access for a realtime connection and get the user's role.
+ * Anonymous connections (no Firebase UID) may only open public boards, as viewers.
+ * Database errors are thrown rather than reported as denied access, so callers
+ * never drop a connection because the check itself failed.
+ */
+export async function resolveBoardAccess(boardId: string, firebaseUid?: string): Promise<BoardAccess> {
+  let userRole = 'viewer';
+  let hasAccess = false;
+  let dbUserId: string | undefined = undefined;
+
+  if (firebaseUid) {
+    // Look up database user ID from Firebase UID
+    const dbUser = await prisma.user.findUnique({
+      where: { firebaseUid }
+    });
+
+    if (dbUser) {
+      dbUserId = dbUser.id;
+    }
+
+    const board = await prisma.board.findUnique({
+      where: { id: boardId },
+      include: {
+        members: {
+          where: dbUserId ? { userId: dbUserId } : undefined,
+          include: { user: true }
+        }
+      }
+    });
+
+    if (board) {
+      // Check if user is owner
+      if (dbUserId && board.ownerId === dbUserId) {
+        userRole = 'owner';
+        hasAccess = true;
+      } else if (dbUserId) {
+        // Check if user is a member
+        const member = board.members.find(m => m.userId === dbUserId);
+        if (member) {
+          userRole = member.role;
+          hasAccess = true;
+        } else if (board.isPublic) {
+          // Public boards are accessible to everyone
+          hasAccess = true;
+        }
+      } else if (board.isPublic) {
+        // Public boards are accessible to everyone
+        hasAccess = true;
+      }
+    }
+  } else {
+    // Allow anonymous access to public boards
+    const board = await prisma.board.findUnique({
+      where: { id: boardId }
+    });
+    hasAccess = board?.isPublic || false;
+  }
+
+  return { hasAccess, userRole, dbUserId };
+}
@@ -0,0 +1,595 @@
+import * as Y from 'yjs';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+import * as syncProtocol from 'y-protocols/sync';
+import * as authProtocol from 'y-protocols/auth';
+import * as awarenessProtocol from 'y-protocols/awareness';
+import { prisma } from '../config/database';
+import { ProjectData } from '../types';
+import {
+  applyProjectDataToYDoc,
+  yDocToProjectData,
+  decodeBoardState,
+  detectBoardStateFormat,
+  loadBoardStateIntoYDoc,
+  convertBoardStateToYjs
+} from '../utils/projectState';
+import {
+  schedulePersist,
+  flushBoardState,
+  saveBoardState,
+  hasPendingPersist,
+  waitForBoardWrites
+} from './persistence';
+import {
+  publishToBoard,
+  onClusterMessage,
+  onOwnershipLost,
+  subscribeToBoard,
+  unsubscribeFromBoard,
+  claimBoardOwnership,
+  releaseBoardOwnership,
+  decodeBinary
+} from './cluster';
+
+// Message types of the y-websocket wire format
+export const MESSAGE_SYNC = 0;
+export const MESSAGE_AWARENESS = 1;
+export const MESSAGE_AUTH = 2;
+export const MESSAGE_QUERY_AWARENESS = 3;
+
+// Non-owners retry claiming ownership this often, in case the owner process died
+const OWNERSHIP_RETRY_MS = 5000;
+
+// Origin of changes that arrived from another server process; they are not re-published
+const REMOTE_ORIGIN = { remote: true };
+
+/**
+ * A client attached to a shared board document.
+ * Protocol clients receive framed y-websocket messages through `send`;
+ * legacy Socket.IO clients receive raw updates through `onUpdate`.
+ */
+export interface YjsPeer {
+  send?: (message: Uint8Array) => void;
+  onUpdate?: (update: Uint8Array, origin: unknown) => void;
+  userId?: string;
+  // Viewers may sync and share awareness, but their document writes are dropped
+  readOnly: boolean;
+  // Force the underlying connection off the board
+  close?: (reason: string) => void;
+  // Awareness client ids controlled by this peer, removed when it leaves
+  awarenessClientIds: Set<number>;
+}
+
+export interface BoardDocument {
+  boardId: string;
+  doc: Y.Doc;
+  awareness: awarenessProtocol.Awareness;
+  peers: Set<YjsPeer>;
+  // Only the owning process persists the board; others just relay
+  isOwner: boolean;
+  ownershipTimer: NodeJS.Timeout | null;
+  // The document holds changes the stored state may lack (written once this process owns the board)
+  hasUnsavedChanges: boolean;
+}
+
+// Shared Yjs documents per board (used by both Socket.IO and raw WebSocket clients)
+const boardDocuments = new Map<string, BoardDocument>();
+
+// Documents currently being loaded, so concurrent joins share one Y.Doc
+const pendingDocuments = new Map<string, Promise<BoardDocument>>();
+
+function encodeMessage(messageType: number, write: (encoder: encoding.Encoder) => void): Uint8Array {
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, messageType);
+  write(encoder);
+  return encoding.toUint8Array(encoder);
+}
+
+async function createBoardDocument(boardId: string): Promise<BoardDocument> {
+  const doc = new Y.Doc();
+  let hasUnsavedChanges = false;
+
+  // A previous session of this board may still be writing its final state
+  await waitForBoardWrites(boardId);
+
+  // Load persisted state from database. A document that failed to load is never
+  // opened: persisting it would overwrite the stored board with an empty one
+  try {
+    const board = await prisma.board.findUnique({
+      where: { id: boardId }
+    });
+
+    // Older boards may still hold JSON project data; it is converted here and saved back as Yjs
+    loadBoardStateIntoYDoc(doc, board?.yDocState);
+    hasUnsavedChanges = detectBoardStateFormat(board?.yDocState) === 'json';
+  } catch (error) {
+    console.error('Error loading board state:', error);
+    doc.destroy();
+    throw error;
+  }
+
+  const awareness = new awarenessProtocol.Awareness(doc);
+  // The server is not a participant, so it publishes no awareness state of its own
+  awareness.setLocalState(null);
+
+  const boardDocument: BoardDocument = {
+    boardId,
+    doc,
+    awareness,
+    peers: new Set(),
+    isOwner: false,
+    ownershipTimer: null,
+    hasUnsavedChanges
+  };
+
+  // Relay document updates to every attached peer except the one that sent them
+  doc.on('update', (update: Uint8Array, origin: unknown) => {
+    if (origin !== REMOTE_ORIGIN) {
+      publishToBoard(boardId, 'update', { data: update });
+    }
+
+    const message = encodeMessage(MESSAGE_SYNC, encoder => syncProtocol.writeUpdate(encoder, update));
+
+    boardDocument.peers.forEach(peer => {
+      if (peer.send && origin !== peer) {
+        peer.send(message);
+      }
+      if (peer.onUpdate) {
+        peer.onUpdate(update, origin);
+      }
+    });
+  });
+
+  // Persist the merged document state (debounced) after every change
+  doc.on('update', () => {
+    if (boardDocument.isOwner) {
+      schedulePersist(boardId, doc);
+    } else {
+      boardDocument.hasUnsavedChanges = true;
+    }
+  });
+
+  awareness.on('update', (
+    { added, updated, removed }: { added: number[]; updated: number[]; removed: number[] },
+    origin: unknown
+  ) => {
+    const changedClients = added.concat(updated, removed);
+
+    // Track which awareness clients belong to which peer
+    const originPeer = boardDocument.peers.has(origin as YjsPeer) ? origin as YjsPeer : null;
+    if (originPeer) {
+      added.forEach(clientId => originPeer.awarenessClientIds.add(clientId));
+      removed.forEach(clientId => originPeer.awarenessClientIds.delete(clientId));
+    }
+
+    const awarenessUpdate = awarenessProtocol.encodeAwarenessUpdate(awareness, changedClients);
+    if (origin !== REMOTE_ORIGIN) {
+      publishToBoard(boardId, 'awareness', { data: awarenessUpdate });
+    }
+
+    const message = encodeMessage(MESSAGE_AWARENESS, encoder =>
+      encoding.writeVarUint8Array(encoder, awarenessUpdate)
+    );
+
+    boardDocument.peers.forEach(peer => peer.send?.(message));
+  });
+
+  try {
+    // Catch up with edits other processes hold but have not persisted yet
+    await subscribeToBoard(boardId);
+    publishToBoard(boardId, 'sync-request', { data: Y.encodeStateVector(doc) });
+
+    await claimOwnership(boardDocument);
+  } catch (error) {
+    // Tear the half-opened document down; the join fails and the client is told so
+    const { isOwner } = boardDocument;
+    boardDocument.isOwner = false;
+    if (boardDocument.ownershipTimer) {
+      clearInterval(boardDocument.ownershipTimer);
+      boardDocument.ownershipTimer = null;
+    }
+    awareness.destroy();
+    doc.destroy();
+
+    if (!boardDocuments.has(boardId)) {
+      await unsubscribeFromBoard(boardId).catch(() => undefined);
+    }
+    if (isOwner) {
+      await releaseBoardOwnership(boardId).catch(() => undefined);
+    }
+    throw error;
+  }
+
+  return boardDocument;
+}
+
+/**
+ * Try to become the board's persisting process, retrying until it succeeds
+ */
+async function claimOwnership(boardDocument: BoardDocument): Promise<void> {
+  if (boardDocument.isOwner || boardDocument.doc.isDestroyed) return;
+
+  boardDocument.isOwner = await claimBoardOwnership(boardDocument.boardId);
+
+  // The document may have been released while the claim was in flight
+  if (boardDocument.isOwner && boardDocument.doc.isDestroyed) {
+    boardDocument.isOwner = false;
+    await releaseBoardOwnership(boardDocument.boardId);
+    return;
+  }
+
+  if (boardDocument.isOwner) {
+    if (boardDocument.ownershipTimer) {
+      clearInterval(boardDocument.ownershipTimer);
+      boardDocument.ownershipTimer = null;
+    }
+    // Write the merged state we hold if it has changes the previous owner may have missed;
+    // a document that matches the stored state is not written back just for being opened
+    if (boardDocument.hasUnsavedChanges) {
+      boardDocument.hasUnsavedChanges = false;
+      schedulePersist(boardDocument.boardId, boardDocument.doc);
+    }
+  } else if (!boardDocument.ownershipTimer && !boardDocument.doc.isDestroyed) {
+    boardDocument.ownershipTimer = setInterval(() => {
+      claimOwnership(boardDocument);
+    }, OWNERSHIP_RETRY_MS);
+  }
+}
+
+/**
+ * Release a document nobody on this process uses any more
+ */
+function releaseBoardDocument(boardDocument: BoardDocument): void {
+  const { boardId } = boardDocument;
+
+  // The owner keeps the document open until its changes are stored: a failed write is
+  // retried from memory, and a client rejoining meanwhile gets the same document back
+  const saved = boardDocument.isOwner ? saveBoardState(boardId) : Promise.resolve();
+
+  saved
+    .then(async () => {
+      if (boardDocument.peers.size > 0 || boardDocument.doc.isDestroyed) return;
+
+      const { isOwner } = boardDocument;
+      if (boardDocument.ownershipTimer) {
+        clearInterval(boardDocument.ownershipTimer);
+        boardDocument.ownershipTimer = null;
+      }
+      boardDocument.isOwner = false;
+
+      if (boardDocuments.get(boardId) === boardDocument) {
+        boardDocuments.delete(boardId);
+      }
+      boardDocument.awareness.destroy();
+      boardDocument.doc.destroy();
+
+      // The board may have been reopened on this process in the meantime
+      if (!boardDocuments.has(boardId) && !pendingDocuments.has(boardId)) {
+        await unsubscribeFromBoard(boardId);
+      }
+      if (isOwner) {
+        await releaseBoardOwnership(boardId);
+        publishToBoard(boardId, 'owner-released');
+      }
+    })
+    .catch(error => {
+      console.error('Error releasing board document:', error);
+    });
+}
+
+// Changes made on other processes
+onClusterMessage('update', message => {
+  const boardDocument = boardDocuments.get(message.boardId);
+  if (boardDocument && message.data) {
+    Y.applyUpdate(boardDocument.doc, decodeBinary(message.data), REMOTE_ORIGIN);
+  }
+});
+
+onClusterMessage('awareness', message => {
+  const boardDocument = boardDocuments.get(message.boardId);
+  if (boardDocument && message.data) {
+    awarenessProtocol.applyAwarenessUpdate(boardDocument.awareness, decodeBinary(message.data), REMOTE_ORIGIN);
+  }
+});
+
+// Another process opened the board: send it what it is missing
+onClusterMessage('sync-request', message => {
+  const boardDocument = boardDocuments.get(message.boardId);
+  if (!boardDocument || !message.data) return;
+
+  publishToBoard(message.boardId, 'sync-reply', {
+    targetNodeId: message.nodeId,
+    data: Y.encodeStateAsUpdate(boardDocument.doc, decodeBinary(message.data))
+  });
+
+  const clientIds = Array.from(boardDocument.awareness.getStates().keys());
+  if (clientIds.length > 0) {
+    publishToBoard(message.boardId, 'awareness', {
+      targetNodeId: message.nodeId,
+      data: awarenessProtocol.encodeAwarenessUpdate(boardDocument.awareness, clientIds)
+    });
+  }
+});
+
+onClusterMessage('sync-reply', message => {
+  const boardDocument = boardDocuments.get(message.boardId);
+  if (boardDocument && message.data) {
+    Y.applyUpdate(boardDocument.doc, decodeBinary(message.data), REMOTE_ORIGIN);
+  }
+});
+
+onClusterMessage('owner-released', message => {
+  const boardDocument = boardDocuments.get(message.boardId);
+  if (boardDocument && !boardDocument.isOwner) {
+    claimOwnership(boardDocument);
+  }
+});
+
+/**
+ * Start listening for lost ownership (call once the pub/sub adapter is set up)
+ */
+export function watchBoardOwnership(): void {
+  onOwnershipLost(() => {
+    boardDocuments.forEach(boardDocument => {
+      boardDocument.isOwner = false;
+      claimOwnership(boardDocument);
+    });
+  });
+}
+
+/**
+ * Get the shared document for a board, loading it from the database on first use
+ */
+export async function getBoardDocument(boardId: string): Promise<BoardDocument> {
+  const existing = boardDocuments.get(boardId);
+  if (existing) {
+    return existing;
+  }
+
+  let pending = pendingDocuments.get(boardId);
+  if (!pending) {
+    pending = createBoardDocument(boardId)
+      .then(boardDocument => {
+        boardDocuments.set(boardId, boardDocument);
+        return boardDocument;
+      })
+      .finally(() => {
+        pendingDocuments.delete(boardId);
+      });
+    pendingDocuments.set(boardId, pending);
+  }
+
+  return pending;
+}
+
+/**
+ * Attach a peer to a board's shared document, loading it on first use. Returns
+ * null if the peer's connection closed while the document loaded; the document
+ * is then released again unless someone else uses it.
+ */
+export async function joinBoardDocument(
+  boardId: string,
+  peer: YjsPeer,
+  isConnected: () => boolean
+): Promise<BoardDocument | null> {
+  for (;;) {
+    const boardDocument = await getBoardDocument(boardId);
+
+    if (!isConnected()) {
+      if (boardDocument.peers.size === 0 && !boardDocument.doc.isDestroyed) {
+        releaseBoardDocument(boardDocument);
+      }
+      return null;
+    }
+
+    // Another join that was waiting for the same document may have released it
+    if (boardDocument.doc.isDestroyed) continue;
+
+    addPeer(boardDocument, peer);
+    return boardDocument;
+  }
+}
+
+/**
+ * Current project data of a board, preferring the live document over the stored state
+ */
+export function readBoardProjectData(boardId: string, storedState: Uint8Array | null): ProjectData {
+  const boardDocument = boardDocuments.get(boardId);
+  return boardDocument ? yDocToProjectData(boardDocument.doc) : decodeBoardState(storedState);
+}
+
+/**
+ * Current Yjs state of a board (e.g. for a version snapshot), preferring the live document
+ */
+export function readBoardState(boardId: string, storedState: Uint8Array | null): Buffer | null {
+  const boardDocument = boardDocuments.get(boardId);
+  if (boardDocument) {
+    return Buffer.from(Y.encodeStateAsUpdate(boardDocument.doc));
+  }
+  if (!storedState) {
+    return null;
+  }
+  return convertBoardStateToYjs(storedState) || Buffer.from(storedState);
+}
+
+/**
+ * Apply a full project data snapshot (from the REST API) to a board as Yjs changes.
+ * Open documents are changed live and reach every collaborator; otherwise the stored
+ * state is updated and the change is published to processes that have the board open.
+ */
+export async function writeBoardProjectData(
+  boardId: string,
+  projectData: ProjectData,
+  options: { preserveLastModified?: boolean } = {}
+): Promise<void> {
+  const openDocument = boardDocuments.get(boardId) || await pendingDocuments.get(boardId);
+
+  if (openDocument && !openDocument.doc.isDestroyed) {
+    // Unsaved live edits still count as a modification when they are written with this change
+    const preserveLastModified = options.preserveLastModified && !hasPendingPersist(boardId);
+
+    applyProjectDataToYDoc(openDocument.doc, projectData);
+    if (openDocument.isOwner) {
+      await flushBoardState(boardId, { preserveLastModified });
+    }
+    return;
+  }
+
+  await waitForBoardWrites(boardId);
+
+  const board = await prisma.board.findUnique({
+    where: { id: boardId },
+    select: { yDocState: true, lastModified: true }
+  });
+
+  const doc = new Y.Doc();
+  try {
+    loadBoardStateIntoYDoc(doc, board?.yDocState);
+    const stateVector = Y.encodeStateVector(doc);
+    applyProjectDataToYDoc(doc, projectData);
+
+    await prisma.board.update({
+      where: { id: boardId },
+      data: {
+        yDocState: Buffer.from(Y.encodeStateAsUpdate(doc)),
+        // lastModified is @updatedAt, so keeping it means writing the old value back
+        lastModified: options.preserveLastModified && board ? board.lastModified : new Date()
+      }
+    });
+
+    publishToBoard(boardId, 'update', { data: Y.encodeStateAsUpdate(doc, stateVector) });
+  } finally {
+    doc.destroy();
+  }
+}
+
+/**
+ * Attach a peer to a board document
+ */
+export function addPeer(boardDocument: BoardDocument, peer: YjsPeer): void {
+  boardDocument.peers.add(peer);
+}
+
+/**
+ * Detach a peer, clearing its awareness states. Once the last peer leaves,
+ * pending changes are flushed and the document is released.
+ */
+export function removePeer(boardDocument: BoardDocument, peer: YjsPeer): void {
+  if (!boardDocument.peers.delete(peer)) return;
+
+  if (peer.awarenessClientIds.size > 0) {
+    awarenessProtocol.removeAwarenessStates(
+      boardDocument.awareness,
+      Array.from(peer.awarenessClientIds),
+      null
+    );
+  }
+
+  if (boardDocument.peers.size === 0) {
+    releaseBoardDocument(boardDocument);
+  }
+}
+
+/**
+ * Switch a user's peers on a board between read-only and read-write
+ */
+export function setPeersReadOnly(boardId: string, userId: string, readOnly: boolean): void {
+  const boardDocument = boardDocuments.get(boardId);
+  if (!boardDocument) return;
+
+  boardDocument.peers.forEach(peer => {
+    if (peer.userId === userId) {
+      peer.readOnly = readOnly;
+    }
+  });
+}
+
+/**
+ * Disconnect every connection a user has on a board (e.g. after removal from the board)
+ */
+export function closePeers(boardId: string, userId: string, reason: string): void {
+  const boardDocument = boardDocuments.get(boardId);
+  if (!boardDocument) return;
+
+  Array.from(boardDocument.peers)
+    .filter(peer => peer.userId === userId)
+    .forEach(peer => peer.close?.(reason));
+}
+
+/**
+ * Sync step 1: the server's state vector, asking the client for what the server is missing
+ */
+export function encodeSyncStep1(boardDocument: BoardDocument): Uint8Array {
+  return encodeMessage(MESSAGE_SYNC, encoder => syncProtocol.writeSyncStep1(encoder, boardDocument.doc));
+}
+
+/**
+ * Full awareness state of all connected clients, or null if nobody has published any
+ */
+export function encodeAwarenessStates(boardDocument: BoardDocument): Uint8Array | null {
+  const clientIds = Array.from(boardDocument.awareness.getStates().keys());
+  if (clientIds.length === 0) {
+    return null;
+  }
+
+  return encodeMessage(MESSAGE_AWARENESS, encoder =>
+    encoding.writeVarUint8Array(
+      encoder,
+      awarenessProtocol.encodeAwarenessUpdate(boardDocument.awareness, clientIds)
+    )
+  );
+}
+
+/**
+ * Handle a framed y-websocket message from a peer.
+ * Returns the reply to send back to that peer, if any; writes from
+ * read-only peers are answered with a permission-denied auth message.
+ */
+export function handleYjsMessage(
+  boardDocument: BoardDocument,
+  peer: YjsPeer,
+  message: Uint8Array
+): Uint8Array | null {
+  const decoder = decoding.createDecoder(message);
+  const messageType = decoding.readVarUint(decoder);
+
+  switch (messageType) {
+    case MESSAGE_SYNC: {
+      // Step 1 only asks for data; step 2 and updates would modify the document
+      if (peer.readOnly && decoding.peekVarUint(decoder) !== syncProtocol.messageYjsSyncStep1) {
+        decoding.readVarUint(decoder);
+        const update = decoding.readVarUint8Array(decoder);
+
+        // Every viewer answers the server's step 1 with a step 2, which holds nothing new
+        // unless the viewer edited its copy; only actual changes are refused
+        if (Y.snapshotContainsUpdate(Y.snapshot(boardDocument.doc), update)) {
+          return null;
+        }
+
+        console.warn(`Dropped write from read-only client on board ${boardDocument.boardId}`);
+        return encodeMessage(MESSAGE_AUTH, encoder =>
+          authProtocol.writePermissionDenied(encoder, 'Viewers cannot edit this board')
+        );
+      }
+
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, MESSAGE_SYNC);
+      // Replies with sync step 2 for step 1; applies step 2 and updates with the peer as origin
+      syncProtocol.readSyncMessage(decoder, encoder, boardDocument.doc, peer);
+      return encoding.length(encoder) > 1 ? encoding.toUint8Array(encoder) : null;
+    }
+    case MESSAGE_AWARENESS:
+      awarenessProtocol.applyAwarenessUpdate(
+        boardDocument.awareness,
+        decoding.readVarUint8Array(decoder),
+        peer
+      );
+      return null;
+    case MESSAGE_QUERY_AWARENESS:
+      return encodeAwarenessStates(boardDocument);
+    default:
+      console.warn(`Unknown Yjs message type ${messageType} on board ${boardDocument.boardId}`);
+      return null;
+  }
+}
@@ -0,0 +1,138 @@
+import { v4 as uuidv4 } from 'uuid';
+import { PubSubAdapter, createInMemoryPubSub } from './pubsub';
+
+// Identifies this process in cross-process collaboration messages
+export const NODE_ID = uuidv4();
+
+/**
+ * Message exchanged between server processes about one board.
+ * Binary payloads (Yjs updates, awareness, state vectors) travel base64-encoded in `data`.
+ */
+export interface ClusterMessage {
+  nodeId: string;
+  boardId: string;
+  type: string;
+  targetNodeId?: string;
+  data?: string;
+  body?: any;
+}
+
+type ClusterMessageHandler = (message: ClusterMessage) => void;
+
+let adapter: PubSubAdapter = createInMemoryPubSub();
+
+const messageHandlers = new Map<string, ClusterMessageHandler>();
+
+function boardChannel(boardId: string): string {
+  return `collab_${boardId}`;
+}
+
+function lockKey(boardId: string): string {
+  return `board-owner:${boardId}`;
+}
+
+/**
+ * Use a specific pub/sub adapter (call before any board is opened)
+ */
+export function initCluster(pubSubAdapter: PubSubAdapter): void {
+  adapter = pubSubAdapter;
+}
+
+export async function closeCluster(): Promise<void> {
+  await adapter.close();
+}
+
+/**
+ * Register the handler for one message type (one handler per type)
+ */
+export function onClusterMessage(type: string, handler: ClusterMessageHandler): void {
+  messageHandlers.set(type, handler);
+}
+
+/**
+ * Notify when this process loses board locks it did not release itself
+ */
+export function onOwnershipLost(handler: () => void): void {
+  adapter.onLocksLost(handler);
+}
+
+export function encodeBinary(data: Uint8Array): string {
+  return Buffer.from(data).toString('base64');
+}
+
+export function decodeBinary(data: string): Uint8Array {
+  return new Uint8Array(Buffer.from(data, 'base64'));
+}
+
+/**
+ * Send a message to every other process that has the board open
+ */
+export function publishToBoard(
+  boardId: string,
+  type: string,
+  fields: { data?: Uint8Array; body?: any; targetNodeId?: string } = {}
+): void {
+  const message: ClusterMessage = {
+    nodeId: NODE_ID,
+    boardId,
+    type,
+    ...(fields.targetNodeId && { targetNodeId: fields.targetNodeId }),
+    ...(fields.data && { data: encodeBinary(fields.data) }),
+    ...(fields.body !== undefined && { body: fields.body })
+  };
+
+  adapter.publish(boardChannel(boardId), JSON.stringify(message)).catch(error => {
+    console.error(`Error publishing ${type} for board ${boardId}:`, error);
+  });
+}
+
+/**
+ * Start receiving messages about a board from other processes
+ */
+export async function subscribeToBoard(boardId: string): Promise<void> {
+  await adapter.subscribe(boardChannel(boardId), (raw: string) => {
+    let message: ClusterMessage;
+    try {
+      message = JSON.parse(raw);
+    } catch (error) {
+      console.warn('Ignoring malformed cluster message for board', boardId);
+      return;
+    }
+
+    if (message.nodeId === NODE_ID) return;
+    if (message.targetNodeId && message.targetNodeId !== NODE_ID) return;
+
+    const handler = messageHandlers.get(message.type);
+    if (!handler) return;
+
+    try {
+      handler(message);
+    } catch (error) {
+      console.error(`Error handling cluster message ${message.type}:`, error);
+    }
+  });
+}
+
+export async function unsubscribeFromBoard(boardId: string): Promise<void> {
+  await adapter.unsubscribe(boardChannel(boardId));
+}
+
+/**
+ * Try to become the process that persists a board
+ */
+export async function claimBoardOwnership(boardId: string): Promise<boolean> {
+  try {
+    return await adapter.tryAcquireLock(lockKey(boardId));
+  } catch (error) {
+    console.error('Error claiming board ownership:', error);
+    return false;
+  }
+}
+
+export async function releaseBoardOwnership(boardId: string): Promise<void> {
+  try {
+    await adapter.releaseLock(lockKey(boardId));
+  } catch (error) {
+    console.error('Error releasing board ownership:', error);
+  }
+}
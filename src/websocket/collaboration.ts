@@ -1,7 +1,31 @@
 import { Server as SocketIOServer, Socket } from 'socket.io';
 import * as Y from 'yjs';
-import { prisma } from '../config/database';
 import http from 'http';
+import { resolveBoardAccess } from './boardAccess';
+import { verifySocketToken, isIdentityExpired, SocketIdentity, REVALIDATE_INTERVAL_MS } from './socketAuth';
+import {
+  joinBoardDocument,
+  removePeer,
+  handleYjsMessage,
+  encodeSyncStep1,
+  encodeAwarenessStates,
+  setPeersReadOnly,
+  closePeers,
+  BoardDocument,
+  YjsPeer
+} from './boardDocuments';
+import { publishToBoard, onClusterMessage } from './cluster';
+
+// Presence of users connected to other server processes expires without a heartbeat
+const PRESENCE_HEARTBEAT_MS = 30 * 1000;
+const PRESENCE_TTL_MS = 3 * PRESENCE_HEARTBEAT_MS;
+
+/**
+ * Sync protocol spoken by a Socket.IO client:
+ * - 'legacy': full-state `sync-board` on join and array-encoded `board-update` relays
+ * - 'y-protocols': binary y-websocket messages on the `yjs` event (state-vector sync + awareness)
+ */
+type SyncProtocol = 'legacy' | 'y-protocols';
 
 interface ClientConnection {
   socket: Socket;
@@ -11,13 +35,130 @@ interface ClientConnection {
   userEmail?: string;
   color?: string;
   cursor?: { x: number; y: number };
+  protocol: SyncProtocol;
+  boardDocument: BoardDocument;
+  peer: YjsPeer;
+}
+
+interface ActiveUser {
+  userId?: string;
+  userName?: string;
+  userEmail?: string;
+  color?: string;
+  cursor?: { x: number; y: number };
+  socketId: string;
+  role: string;
 }
 
 // Store active connections per board
 const boardConnections = new Map<string, Set<ClientConnection>>();
 
-// Store Yjs documents per board
-const boardDocs = new Map<string, Y.Doc>();
+// Users connected to other server processes, per board and process
+const remotePresence = new Map<string, Map<string, { users: ActiveUser[]; updatedAt: number }>>();
+
+// Socket.IO server instance, set once initWebSocketServer runs
+let ioServer: SocketIOServer | null = null;
+
+/**
+ * Broadcast an event to every client in a board room (all roles, viewers included),
+ * on this and every other server process.
+ */
+export function emitToBoard(boardId: string, event: string, payload: any): void {
+  ioServer?.to(boardId).emit(event, payload);
+  publishToBoard(boardId, 'broadcast', { body: { event, payload } });
+}
+
+/**
+ * Broadcast to everyone on the board except the sending socket, across processes
+ */
+function relayToBoard(socket: Socket, boardId: string, event: string, payload: any): void {
+  socket.to(boardId).emit(event, payload);
+  publishToBoard(boardId, 'broadcast', { body: { event, payload } });
+}
+
+function toActiveUser(conn: ClientConnection): ActiveUser {
+  return {
+    userId: conn.userId,
+    userName: conn.userName,
+    userEmail: conn.userEmail,
+    color: conn.color,
+    cursor: conn.cursor,
+    socketId: conn.socket.id,
+    role: (conn.socket as any).userRole || 'viewer'
+  };
+}
+
+/**
+ * Everyone on the board, whichever process they are connected to
+ */
+function getActiveUsers(boardId: string): ActiveUser[] {
+  const users = Array.from(boardConnections.get(boardId) || []).map(toActiveUser);
+  const now = Date.now();
+
+  remotePresence.get(boardId)?.forEach((presence, nodeId, nodes) => {
+    if (now - presence.updatedAt > PRESENCE_TTL_MS) {
+      nodes.delete(nodeId);
+    } else {
+      users.push(...presence.users);
+    }
+  });
+
+  return users;
+}
+
+/**
+ * Share this process's users on a board with the other processes
+ */
+function publishPresence(boardId: string, targetNodeId?: string): void {
+  publishToBoard(boardId, 'presence', {
+    targetNodeId,
+    body: { users: Array.from(boardConnections.get(boardId) || []).map(toActiveUser) }
+  });
+}
+
+function toUint8Array(data: ArrayBuffer | Uint8Array | number[]): Uint8Array {
+  return data instanceof ArrayBuffer ? new Uint8Array(data) : Uint8Array.from(data);
+}
+
+onClusterMessage('broadcast', message => {
+  ioServer?.to(message.boardId).emit(message.body.event, message.body.payload);
+});
+
+onClusterMessage('presence', message => {
+  const { boardId, nodeId } = message;
+  const users: ActiveUser[] = message.body?.users || [];
+
+  if (!boardConnections.has(boardId)) return;
+
+  if (!remotePresence.has(boardId)) {
+    remotePresence.set(boardId, new Map());
+  }
+  if (users.length > 0) {
+    remotePresence.get(boardId)!.set(nodeId, { users, updatedAt: Date.now() });
+  } else {
+    remotePresence.get(boardId)!.delete(nodeId);
+  }
+
+  ioServer?.to(boardId).emit('active-users', { users: getActiveUsers(boardId) });
+});
+
+onClusterMessage('presence-query', message => {
+  if (boardConnections.has(message.boardId)) {
+    publishPresence(message.boardId, message.nodeId);
+  }
+});
+
+// Role changes and removals made through the REST API of another process
+onClusterMessage('member-access', message => {
+  const { userId, role } = message.body || {};
+  if (!userId) return;
+
+  if (role) {
+    applyRoleChange(message.boardId, userId, role);
+  } else {
+    closePeers(message.boardId, userId, 'You were removed from this board');
+  }
+});
 
 /**
  * Initialize Socket.IO server for real-time collaboration
@@ -31,6 +172,26 @@ export function initWebSocketServer(server: http.Server): SocketIOServer {
     path: '/socket.io/'
   });
 
+  ioServer = io;
+
+  // Keep other processes' view of our users fresh
+  setInterval(() => {
+    boardConnections.forEach((_connections, boardId) => publishPresence(boardId));
+  }, PRESENCE_HEARTBEAT_MS);
+
+  /**
+   * Authenticate the handshake with a Firebase ID token (`auth: { token }`).
+   * Connections without a token are anonymous and may only open public boards.
+   */
+  io.use(async (socket, next) => {
+    try {
+      socket.data.identity = await verifySocketToken(socket.handshake.auth?.token);
+      next();
+    } catch (error) {
+      next(new Error('Invalid or expired token'));
+    }
+  });
+
   console.log('✅ Socket.IO server initialized');
 
   io.on('connection', (socket: Socket) => {
@@ -38,12 +199,73 @@ export function initWebSocketServer(server: http.Server): SocketIOServer {
 
     let clientConnection: ClientConnection | null = null;
 
+    /**
+     * Periodically drop sockets whose token expired or whose board access was revoked
+     */
+    const revalidateInterval = setInterval(async () => {
+      const identity: SocketIdentity | null = socket.data.identity;
+
+      if (isIdentityExpired(identity)) {
+        socket.emit('auth-expired', { message: 'Authentication token expired' });
+        socket.disconnect(true);
+        return;
+      }
+
+      if (!clientConnection) return;
+
+      const { boardId } = clientConnection;
+      try {
+        const { hasAccess, userRole } = await resolveBoardAccess(boardId, identity?.firebaseUid);
+
+        if (!hasAccess) {
+          socket.emit('access-revoked', { boardId, message: 'Access to this board was revoked' });
+          socket.disconnect(true);
+        } else if (userRole !== (socket as any).userRole && clientConnection?.userId) {
+          applyRoleChange(boardId, clientConnection.userId, userRole);
+        }
+      } catch (error) {
+        // Keep the socket; access is checked again on the next round
+        console.error('Error revalidating board access:', error);
+      }
+    }, REVALIDATE_INTERVAL_MS);
+
+    /**
+     * Replace the socket's token before it expires
+     */
+    socket.on('refresh-token', async (data: { token: string }) => {
+      try {
+        const identity = await verifySocketToken(data?.token);
+        const current: SocketIdentity | null = socket.data.identity;
+
+        if (!identity || (current && identity.firebaseUid !== current.firebaseUid)) {
+          socket.emit('error', { message: 'Token does not match the authenticated user' });
+          return;
+        }
+
+        socket.data.identity = identity;
+        socket.emit('token-refreshed', { expiresAt: identity.expiresAt });
+      } catch (error) {
+        socket.emit('auth-expired', { message: 'Invalid or expired token' });
+        socket.disconnect(true);
+      }
+    });
+
     /**
      * Handle client joining a board
      */
-    socket.on('join-board', async (data: { boardId: string; userId?: string; userName?: string; userEmail?: string }) => {
+    const joinBoard = async (data: {
+      boardId: string;
+      userName?: string;
+      protocol?: SyncProtocol;
+      stateVector?: number[];
+    }): Promise<void> => {
       try {
-        const { boardId, userId, userName, userEmail } = data;
+        const { boardId, stateVector } = data;
+        // Identity comes from the verified token, never from the client payload
+        const identity: SocketIdentity | null = socket.data.identity;
+        const userName = identity?.name || identity?.email?.split('@')[0] || data.userName;
+        const userEmail = identity?.email;
+        const protocol: SyncProtocol = data.protocol === 'y-protocols' ? 'y-protocols' : 'legacy';
 
         if (!boardId) {
           socket.emit('error', { message: 'Board ID required' });
@@ -51,120 +273,63 @@ export function initWebSocketServer(server: http.Server): SocketIOServer {
         }
 
         // Verify board access and get user role
-        let userRole = 'viewer';
-        let hasAccess = false;
-        let dbUserId: string | undefined = undefined;
-
-        if (userId) {
-          try {
-            // Look up database user ID from Firebase UID
-            const dbUser = await prisma.user.findUnique({
-              where: { firebaseUid: userId }
-            });
-            
-            if (dbUser) {
-              dbUserId = dbUser.id;
-            }
-
-            const board = await prisma.board.findUnique({
-              where: { id: boardId },
-              include: {
-                members: {
-                  where: dbUserId ? { userId: dbUserId } : undefined,
-                  include: { user: true }
-                }
-              }
-            });
-
-            if (board) {
-              // Check if user is owner
-              if (dbUserId && board.ownerId === dbUserId) {
-                userRole = 'owner';
-                hasAccess = true;
-              } else if (dbUserId) {
-                // Check if user is a member
-                const member = board.members.find(m => m.userId === dbUserId);
-                if (member) {
-                  userRole = member.role;
-                  hasAccess = true;
-                } else if (board.isPublic) {
-                  // Public boards are accessible to everyone
-                  hasAccess = true;
-                }
-              } else if (board.isPublic) {
-                // Public boards are accessible to everyone
-                hasAccess = true;
-              }
-            }
-          } catch (error) {
-            console.error('Error verifying board access:', error);
-          }
-        } else if (boardId) {
-          // Allow anonymous access to public boards
-          try {
-            const board = await prisma.board.findUnique({
-              where: { id: boardId }
-            });
-            hasAccess = board?.isPublic || false;
-          } catch (error) {
-            console.error('Error checking board access:', error);
-          }
-        }
+        const { hasAccess, userRole, dbUserId } = await resolveBoardAccess(boardId, identity?.firebaseUid);
 
         if (!hasAccess) {
           socket.emit('error', { message: 'Access denied to this board' });
           return;
         }
 
-        // Join the socket room for this board
-        socket.join(boardId);
+        // Rejoining replaces this socket's previous board attachment
+        if (clientConnection) {
+          removePeer(clientConnection.boardDocument, clientConnection.peer);
+          boardConnections.get(clientConnection.boardId)?.delete(clientConnection);
+          socket.leave(clientConnection.boardId);
+          clientConnection = null;
+        }
 
-        // Load or create Yjs document for the board
-        let yDoc = boardDocs.get(boardId);
-        
-        if (!yDoc) {
-          yDoc = new Y.Doc();
-          
-          // Try to load persisted state from database
-          try {
-            const board = await prisma.board.findUnique({
-              where: { id: boardId }
-            });
-
-            if (board && board.yDocState) {
-              Y.applyUpdate(yDoc, new Uint8Array(board.yDocState));
-            }
-          } catch (error) {
-            console.error('Error loading board state:', error);
+        const peerAccess = {
+          userId: dbUserId,
+          readOnly: userRole === 'viewer',
+          awarenessClientIds: new Set<number>(),
+          close: (reason: string) => {
+            socket.emit('access-revoked', { boardId, message: reason });
+            socket.disconnect(true);
           }
-
-          boardDocs.set(boardId, yDoc);
-
-          // Auto-save document changes to database
-          yDoc.on('update', async (update: Uint8Array) => {
-            try {
-              await prisma.board.update({
-                where: { id: boardId },
-                data: { 
-                  yDocState: Buffer.from(update),
-                  lastModified: new Date()
-                }
-              });
-            } catch (error) {
-              console.error('Error saving board state:', error);
+        };
+        const peer: YjsPeer = protocol === 'y-protocols'
+          ? {
+              ...peerAccess,
+              send: (message: Uint8Array) => socket.emit('yjs', message)
             }
-          });
-        }
+          : {
+              ...peerAccess,
+              // Legacy clients expect every update echoed back, including their own
+              onUpdate: (update: Uint8Array) => socket.emit('board-update', {
+                update: Array.from(update)
+              })
+            };
+
+        // Load or create the shared Yjs document for the board; the socket may
+        // disconnect meanwhile, and then never joins
+        const boardDocument = await joinBoardDocument(boardId, peer, () => socket.connected);
+        if (!boardDocument) return;
+
+        // Join the socket room for this board
+        socket.join(boardId);
 
         // Create client connection
         const color = getRandomColor();
         clientConnection = {
           socket,
           boardId,
-          userId: dbUserId || userId, // Use database user ID if available
+          userId: dbUserId || identity?.firebaseUid, // Use database user ID if available
           userName: userName || 'Anonymous',
           userEmail,
           color,
+          protocol,
+          boardDocument,
+          peer,
         };
 
         // Store user role and IDs in socket data for later use
@@ -176,6 +341,8 @@ export function initWebSocketServer(server: http.Server): SocketIOServer {
         // First, remove any existing connection for this user to prevent duplicates on refresh
         if (!boardConnections.has(boardId)) {
           boardConnections.set(boardId, new Set());
+          // First user here on this process: learn who is connected elsewhere
+          publishToBoard(boardId, 'presence-query');
         } else {
           // Remove any existing connections for the same user (by userId or userEmail)
           const existingConnections = Array.from(boardConnections.get(boardId)!);
@@ -184,7 +351,7 @@ export function initWebSocketServer(server: http.Server): SocketIOServer {
                 (userEmail && conn.userEmail === userEmail)) {
               boardConnections.get(boardId)!.delete(conn);
               // Notify others that the old connection is leaving
-              conn.socket.to(boardId).emit('user-left', {
+              relayToBoard(conn.socket, boardId, 'user-left', {
                 userId: conn.userId,
                 userName: conn.userName,
                 userEmail: conn.userEmail,
@@ -195,29 +362,27 @@ export function initWebSocketServer(server: http.Server): SocketIOServer {
         }
         boardConnections.get(boardId)!.add(clientConnection);
 
-        // Send current document state to client
-        const state = Y.encodeStateAsUpdate(yDoc);
-        socket.emit('sync-board', {
-          state: Array.from(state)
-        });
+        if (protocol === 'y-protocols') {
+          // Sync step 1; the client answers with step 2 and sends its own step 1
+          socket.emit('yjs', encodeSyncStep1(boardDocument));
+          const awarenessStates = encodeAwarenessStates(boardDocument);
+          if (awarenessStates) socket.emit('yjs', awarenessStates);
+        } else {
+          // Only send what the client is missing when it reports its state vector
+          const state = stateVector
+            ? Y.encodeStateAsUpdate(boardDocument.doc, toUint8Array(stateVector))
+            : Y.encodeStateAsUpdate(boardDocument.doc);
+          socket.emit('sync-board', {
+            state: Array.from(state)
+          });
+        }
 
         // Send list of ALL active users to the new client (including themselves)
-        const allActiveUsers = Array.from(boardConnections.get(boardId) || [])
-          .map(conn => ({
-            userId: conn.userId,
-            userName: conn.userName,
-            userEmail: conn.userEmail,
-            color: conn.color,
-            cursor: conn.cursor,
-            socketId: conn.socket.id,
-            role: (conn.socket as any).userRole || 'viewer'
-          }));
-
-        // Send complete list to the new client
-        socket.emit('active-users', { users: allActiveUsers });
+        socket.emit('active-users', { users: getActiveUsers(boardId) });
+        publishPresence(boardId);
         
         // Notify all OTHER clients about the new user joining
-        socket.to(boardId).emit('user-joined', {
+        relayToBoard(socket, boardId, 'user-joined', {
           userId: clientConnection.userId,
           userName: clientConnection.userName,
           userEmail,
@@ -234,40 +399,58 @@ export function initWebSocketServer(server: http.Server): SocketIOServer {
         console.error('Error in join-board:', error);
         socket.emit('error', { message: 'Failed to join board' });
       }
+    };
+
+    // Joins run one at a time, so a rejoin never races the join before it
+    let joinQueue: Promise<void> = Promise.resolve();
+    socket.on('join-board', (data: Parameters<typeof joinBoard>[0]) => {
+      joinQueue = joinQueue.then(() => joinBoard(data));
+    });
+
+    /**
+     * Handle y-protocols sync and awareness messages
+     */
+    socket.on('yjs', (message: ArrayBuffer | Uint8Array) => {
+      if (!clientConnection || clientConnection.protocol !== 'y-protocols') return;
+
+      try {
+        const reply = handleYjsMessage(clientConnection.boardDocument, clientConnection.peer, toUint8Array(message));
+        if (reply) socket.emit('yjs', reply);
+      } catch (error) {
+        console.error('Error handling Yjs message:', error);
+      }
     });
 
     /**
-     * Handle document sync
+     * Handle document sync (legacy protocol)
      */
     socket.on('sync-state', (data: { state: number[] }) => {
       if (!clientConnection) return;
 
-      const yDoc = boardDocs.get(clientConnection.boardId);
-      if (!yDoc) return;
+      if (clientConnection.peer.readOnly) {
+        rejectWrite(socket);
+        return;
+      }
 
       if (data.state) {
-        Y.applyUpdate(yDoc, new Uint8Array(data.state));
+        Y.applyUpdate(clientConnection.boardDocument.doc, toUint8Array(data.state), clientConnection.peer);
       }
     });
 
     /**
-     * Handle document updates
+     * Handle document updates (legacy protocol).
+     * The shared document relays the update to every client on the board.
      */
     socket.on('board-update', (data: { update: number[] }) => {
       if (!clientConnection) return;
 
-      const yDoc = boardDocs.get(clientConnection.boardId);
-      if (!yDoc) return;
+      if (clientConnection.peer.readOnly) {
+        rejectWrite(socket);
+        return;
+      }
 
       if (data.update) {
-        const update = new Uint8Array(data.update);
-        Y.applyUpdate(yDoc, update);
-
-        // Broadcast update to ALL clients on the same board (including the sender)
-        // This ensures the initiator sees their own changes reflected back
-        io.to(clientConnection.boardId).emit('board-update', {
-          update: Array.from(update)
-        });
+        Y.applyUpdate(clientConnection.boardDocument.doc, toUint8Array(data.update), clientConnection.peer);
       }
     });
 
@@ -286,7 +469,7 @@ export function initWebSocketServer(server: http.Server): SocketIOServer {
       clientConnection.cursor = { x: data.x, y: data.y };
 
       // Broadcast cursor position to other clients
-      socket.to(clientConnection.boardId).emit('cursor-update', {
+      relayToBoard(socket, clientConnection.boardId, 'cursor-update', {
         userId: clientConnection.userId,
         userName: clientConnection.userName,
         userEmail: clientConnection.userEmail,
@@ -303,7 +486,7 @@ export function initWebSocketServer(server: http.Server): SocketIOServer {
       if (!clientConnection) return;
 
       // Broadcast awareness to other clients
-      socket.to(clientConnection.boardId).emit('awareness-update', {
+      relayToBoard(socket, clientConnection.boardId, 'awareness-update', {
         userId: clientConnection.userId,
         userName: clientConnection.userName,
         color: clientConnection.color,
@@ -316,6 +499,8 @@ export function initWebSocketServer(server: http.Server): SocketIOServer {
      * Handle client disconnect
      */
     socket.on('disconnect', () => {
+      clearInterval(revalidateInterval);
+
       if (!clientConnection) return;
 
       const { boardId, userId, userName, userEmail } = clientConnection;
@@ -327,32 +512,24 @@ export function initWebSocketServer(server: http.Server): SocketIOServer {
 
         if (connections.size === 0) {
           boardConnections.delete(boardId);
-          boardDocs.delete(boardId);
+          remotePresence.delete(boardId);
         }
       }
 
+      // Detach from the shared document (released once no peers remain)
+      removePeer(clientConnection.boardDocument, clientConnection.peer);
+
       // Notify other clients
-      socket.to(boardId).emit('user-left', {
+      relayToBoard(socket, boardId, 'user-left', {
         userId,
         userName,
         userEmail,
         socketId: socket.id
       });
 
-      // Update all remaining clients with new active users list
-      const remainingUsers = Array.from(boardConnections.get(boardId) || [])
-        .map(conn => ({
-          userId: conn.userId,
-          userName: conn.userName,
-          userEmail: conn.userEmail,
-          color: conn.color,
-          cursor: conn.cursor, // Keep cursor for now, but it will be stale
-          socketId: conn.socket.id,
-          role: (conn.socket as any).userRole || 'viewer'
-        }));
-      
       // Broadcast updated list to all remaining clients (including empty list)
-      io.to(boardId).emit('active-users', { users: remainingUsers });
+      io.to(boardId).emit('active-users', { users: getActiveUsers(boardId) });
+      publishPresence(boardId);
 
       // Clear the client connection reference
       clientConnection = null;
@@ -364,6 +541,54 @@ export function initWebSocketServer(server: http.Server): SocketIOServer {
   return io;
 }
 
+/**
+ * Tell a client its document write was dropped
+ */
+function rejectWrite(socket: Socket): void {
+  console.warn(`Dropped write from read-only client ${socket.id}`);
+  socket.emit('write-rejected', {
+    message: 'Viewers cannot edit this board',
+    role: (socket as any).userRole || 'viewer'
+  });
+}
+
+/**
+ * Apply a member's new role to their connections on this process
+ */
+function applyRoleChange(boardId: string, userId: string, role: string): void {
+  setPeersReadOnly(boardId, userId, role === 'viewer');
+
+  let changed = false;
+  boardConnections.get(boardId)?.forEach(conn => {
+    if (conn.userId !== userId) return;
+
+    (conn.socket as any).userRole = role;
+    conn.socket.emit('role-changed', { boardId, role });
+    changed = true;
+  });
+
+  if (changed) {
+    publishPresence(boardId);
+  }
+}
+
+/**
+ * Push a member's new role to their live connections on a board (on any process),
+ * switching read-only mode without a rejoin
+ */
+export function notifyRoleChanged(boardId: string, userId: string, role: string): void {
+  applyRoleChange(boardId, userId, role);
+  publishToBoard(boardId, 'member-access', { body: { userId, role } });
+}
+
+/**
+ * Drop a user's live connections to a board (on any process) after they lose access to it
+ */
+export function revokeBoardAccess(boardId: string, userId: string): void {
+  closePeers(boardId, userId, 'You were removed from this board');
+  publishToBoard(boardId, 'member-access', { body: { userId, role: null } });
+}
+
 /**
  * Generate random color for user cursor/presence
  */
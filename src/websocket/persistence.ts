@@ -0,0 +1,205 @@
+import * as Y from 'yjs';
+import { prisma } from '../config/database';
+import { scheduleAutoVersion } from '../utils/autoVersions';
+import { scheduleBoardThumbnail } from '../utils/thumbnails';
+
+// Wait this long after the last edit before writing...
+const PERSIST_DEBOUNCE_MS = 2000;
+// ...but never hold back continuous edits for longer than this
+const PERSIST_MAX_WAIT_MS = 10000;
+// Failed writes are retried after a delay that doubles up to this limit
+const PERSIST_RETRY_BASE_MS = 1000;
+const PERSIST_RETRY_MAX_MS = 60000;
+
+interface PendingPersist {
+  doc: Y.Doc;
+  timer: NodeJS.Timeout | null;
+  firstChangeAt: number;
+  // Bumped on every change, so a write only settles the changes it contained
+  revision: number;
+  failedWrites: number;
+  retryAt: number;
+}
+
+// Boards with unsaved changes
+const pendingPersists = new Map<string, PendingPersist>();
+
+// Last write per board; writes are chained so an older state never lands after a newer one
+const boardWrites = new Map<string, Promise<void>>();
+
+export interface BoardWriteOptions {
+  // Store the state without counting it as an edit (e.g. a schema upgrade)
+  preserveLastModified?: boolean;
+}
+
+function writeBoardState(boardId: string, state: Uint8Array, options: BoardWriteOptions = {}): Promise<void> {
+  // A failed write must not hold back the ones after it
+  const previous = (boardWrites.get(boardId) || Promise.resolve()).catch(() => undefined);
+
+  const write = previous
+    .then(async () => {
+      const board = options.preserveLastModified
+        ? await prisma.board.findUnique({ where: { id: boardId }, select: { lastModified: true } })
+        : null;
+
+      await prisma.board.update({
+        where: { id: boardId },
+        data: {
+          yDocState: Buffer.from(state),
+          // lastModified is @updatedAt, so keeping it means writing the old value back
+          lastModified: board ? board.lastModified : new Date()
+        }
+      });
+    })
+    .then(() => {
+      if (options.preserveLastModified) return;
+
+      // Live edits refresh the preview at a slower pace than they are saved,
+      // and are snapshotted as versions slower still
+      scheduleBoardThumbnail(boardId);
+      scheduleAutoVersion(boardId);
+    })
+    .catch(error => {
+      console.error('Error saving board state:', error);
+      throw error;
+    })
+    .finally(() => {
+      if (boardWrites.get(boardId) === write) {
+        boardWrites.delete(boardId);
+      }
+    });
+
+  boardWrites.set(boardId, write);
+  return write;
+}
+
+function getRetryDelay(failedWrites: number): number {
+  return Math.min(PERSIST_RETRY_MAX_MS, PERSIST_RETRY_BASE_MS * 2 ** (failedWrites - 1));
+}
+
+function armPersistTimer(boardId: string, delay: number): NodeJS.Timeout {
+  return setTimeout(() => {
+    // Failures are logged and retried by flushBoardState itself
+    flushBoardState(boardId).catch(() => undefined);
+  }, delay);
+}
+
+/**
+ * Schedule a debounced save of the board's full merged document state
+ */
+export function schedulePersist(boardId: string, doc: Y.Doc): void {
+  const now = Date.now();
+  let pending = pendingPersists.get(boardId);
+
+  if (!pending) {
+    pending = { doc, timer: null, firstChangeAt: now, revision: 0, failedWrites: 0, retryAt: 0 };
+    pendingPersists.set(boardId, pending);
+  }
+
+  if (pending.timer) {
+    clearTimeout(pending.timer);
+  }
+
+  const delay = Math.max(
+    0,
+    Math.min(PERSIST_DEBOUNCE_MS, pending.firstChangeAt + PERSIST_MAX_WAIT_MS - now),
+    // Edits do not bring a retry after a failed write forward
+    pending.retryAt - now
+  );
+
+  pending.doc = doc;
+  pending.revision++;
+  pending.timer = armPersistTimer(boardId, delay);
+}
+
+/**
+ * Whether a board has changes waiting for their debounced save
+ */
+export function hasPendingPersist(boardId: string): boolean {
+  return pendingPersists.has(boardId);
+}
+
+/**
+ * Write a board's pending changes now.
+ * The changes stay pending until they are stored; a failed write rejects and is retried with backoff.
+ */
+export function flushBoardState(boardId: string, options: BoardWriteOptions = {}): Promise<void> {
+  const pending = pendingPersists.get(boardId);
+
+  if (!pending) {
+    return boardWrites.get(boardId) || Promise.resolve();
+  }
+
+  if (pending.timer) {
+    clearTimeout(pending.timer);
+    pending.timer = null;
+  }
+
+  const { revision } = pending;
+
+  return writeBoardState(boardId, Y.encodeStateAsUpdate(pending.doc), options).then(
+    () => {
+      if (pendingPersists.get(boardId) !== pending) return;
+
+      if (pending.revision === revision) {
+        pendingPersists.delete(boardId);
+      } else {
+        // Changes made during the write have their own timer
+        pending.firstChangeAt = Date.now();
+        pending.failedWrites = 0;
+        pending.retryAt = 0;
+      }
+    },
+    error => {
+      if (pendingPersists.get(boardId) === pending) {
+        pending.failedWrites++;
+        const delay = getRetryDelay(pending.failedWrites);
+        pending.retryAt = Date.now() + delay;
+
+        if (pending.timer) {
+          clearTimeout(pending.timer);
+        }
+        pending.timer = armPersistTimer(boardId, delay);
+      }
+
+      throw error;
+    }
+  );
+}
+
+/**
+ * Write a board's pending changes, retrying until every one of them is stored
+ */
+export async function saveBoardState(boardId: string): Promise<void> {
+  while (pendingPersists.has(boardId) || boardWrites.has(boardId)) {
+    try {
+      await flushBoardState(boardId);
+    } catch {
+      const pending = pendingPersists.get(boardId);
+      const delay = pending ? Math.max(0, pending.retryAt - Date.now()) : PERSIST_RETRY_BASE_MS;
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Write every board with pending changes (used on server shutdown).
+ * Rejects if any board could not be saved.
+ */
+export async function flushAllBoardStates(): Promise<void> {
+  const boardIds = Array.from(new Set([...pendingPersists.keys(), ...boardWrites.keys()]));
+  const results = await Promise.allSettled(boardIds.map(boardId => flushBoardState(boardId)));
+
+  const failedBoardIds = boardIds.filter((_, index) => results[index].status === 'rejected');
+  if (failedBoardIds.length > 0) {
+    throw new Error(`Failed to save ${failedBoardIds.length} board(s): ${failedBoardIds.join(', ')}`);
+  }
+}
+
+/**
+ * Wait for any in-flight write of a board, so reloading it never reads stale state
+ */
+export async function waitForBoardWrites(boardId: string): Promise<void> {
+  // A failed write keeps its changes pending on the open document, which is reused instead of reloaded
+  await (boardWrites.get(boardId) || Promise.resolve()).catch(() => undefined);
+}
@@ -0,0 +1,217 @@
+import { Client, Pool, Notification } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import type { PubSubAdapter } from './pubsub';
+
+// NOTIFY payloads are capped at 8000 bytes, so larger messages travel in chunks
+const MAX_CHUNK_LENGTH = 7000;
+const CHUNK_TTL_MS = 30 * 1000;
+const RECONNECT_DELAY_MS = 2000;
+
+interface ChunkEnvelope {
+  id: string;
+  part: number;
+  total: number;
+  chunk: string; // slice of the base64-encoded message
+}
+
+interface PartialMessage {
+  parts: string[];
+  received: number;
+  startedAt: number;
+}
+
+/**
+ * Pub/sub over Postgres LISTEN/NOTIFY.
+ *
+ * One dedicated connection LISTENs and holds session-level advisory locks, so
+ * board ownership is released automatically if this process dies. Publishing
+ * goes through a small pool.
+ */
+export function createPostgresPubSub(connectionString: string): PubSubAdapter {
+  const pool = new Pool({ connectionString, max: 2 });
+  const handlers = new Map<string, (message: string) => void>();
+  const heldLocks = new Map<string, number>();
+  const partialMessages = new Map<string, PartialMessage>();
+  const lockLostHandlers: Array<() => void> = [];
+
+  let listener: Client | null = null;
+  let connecting: Promise<Client> | null = null;
+  let reconnectTimer: NodeJS.Timeout | null = null;
+  let closed = false;
+
+  function handleNotification(notification: Notification): void {
+    const handler = handlers.get(notification.channel);
+    if (!handler || !notification.payload) return;
+
+    let envelope: ChunkEnvelope;
+    try {
+      envelope = JSON.parse(notification.payload);
+    } catch (error) {
+      console.warn('Ignoring malformed pub/sub notification on', notification.channel);
+      return;
+    }
+
+    let partial = partialMessages.get(envelope.id);
+    if (!partial) {
+      partial = { parts: new Array(envelope.total), received: 0, startedAt: Date.now() };
+      partialMessages.set(envelope.id, partial);
+    }
+
+    if (partial.parts[envelope.part] === undefined) {
+      partial.parts[envelope.part] = envelope.chunk;
+      partial.received++;
+    }
+
+    if (partial.received === envelope.total) {
+      partialMessages.delete(envelope.id);
+      handler(Buffer.from(partial.parts.join(''), 'base64').toString('utf8'));
+    }
+
+    // Drop chunks of messages that will never complete
+    const now = Date.now();
+    partialMessages.forEach((pending, id) => {
+      if (now - pending.startedAt > CHUNK_TTL_MS) {
+        partialMessages.delete(id);
+      }
+    });
+  }
+
+  function scheduleReconnect(): void {
+    if (closed || reconnectTimer) return;
+
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect().catch(error => {
+        console.error('Postgres pub/sub reconnect failed:', error);
+        scheduleReconnect();
+      });
+    }, RECONNECT_DELAY_MS);
+  }
+
+  function handleDisconnect(client: Client): void {
+    if (listener !== client) return;
+    listener = null;
+
+    // Session-level advisory locks die with the connection
+    if (heldLocks.size > 0) {
+      heldLocks.clear();
+      lockLostHandlers.forEach(handler => handler());
+    }
+
+    scheduleReconnect();
+  }
+
+  function connect(): Promise<Client> {
+    if (listener) return Promise.resolve(listener);
+
+    if (!connecting) {
+      connecting = (async () => {
+        const client = new Client({ connectionString });
+        client.on('notification', handleNotification);
+        client.on('error', error => {
+          console.error('Postgres pub/sub connection error:', error);
+          handleDisconnect(client);
+        });
+        client.on('end', () => handleDisconnect(client));
+
+        await client.connect();
+
+        // Re-establish subscriptions after a reconnect
+        for (const channel of handlers.keys()) {
+          await client.query(`LISTEN ${client.escapeIdentifier(channel)}`);
+        }
+
+        listener = client;
+        return client;
+      })().finally(() => {
+        connecting = null;
+      });
+    }
+
+    return connecting;
+  }
+
+  return {
+    async publish(channel: string, message: string): Promise<void> {
+      const encoded = Buffer.from(message, 'utf8').toString('base64');
+      const total = Math.max(1, Math.ceil(encoded.length / MAX_CHUNK_LENGTH));
+      const id = uuidv4();
+
+      for (let part = 0; part < total; part++) {
+        const envelope: ChunkEnvelope = {
+          id,
+          part,
+          total,
+          chunk: encoded.slice(part * MAX_CHUNK_LENGTH, (part + 1) * MAX_CHUNK_LENGTH)
+        };
+        await pool.query('SELECT pg_notify($1, $2)', [channel, JSON.stringify(envelope)]);
+      }
+    },
+
+    async subscribe(channel: string, handler: (message: string) => void): Promise<void> {
+      const alreadyListening = handlers.has(channel);
+      handlers.set(channel, handler);
+
+      if (!alreadyListening) {
+        const client = await connect();
+        await client.query(`LISTEN ${client.escapeIdentifier(channel)}`);
+      }
+    },
+
+    async unsubscribe(channel: string): Promise<void> {
+      if (!handlers.delete(channel)) return;
+
+      if (listener) {
+        await listener.query(`UNLISTEN ${listener.escapeIdentifier(channel)}`);
+      }
+    },
+
+    async tryAcquireLock(key: string): Promise<boolean> {
+      const client = await connect();
+      const result = await client.query<{ locked: boolean }>(
+        'SELECT pg_try_advisory_lock(hashtextextended($1, 0)) AS locked',
+        [key]
+      );
+
+      const locked = result.rows[0]?.locked === true;
+      if (locked) {
+        heldLocks.set(key, (heldLocks.get(key) || 0) + 1);
+      }
+      return locked;
+    },
+
+    async releaseLock(key: string): Promise<void> {
+      const count = heldLocks.get(key);
+      if (!count || !listener) return;
+
+      await listener.query('SELECT pg_advisory_unlock(hashtextextended($1, 0))', [key]);
+
+      if (count > 1) {
+        heldLocks.set(key, count - 1);
+      } else {
+        heldLocks.delete(key);
+      }
+    },
+
+    onLocksLost(handler: () => void): void {
+      lockLostHandlers.push(handler);
+    },
+
+    async close(): Promise<void> {
+      closed = true;
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+        reconnectTimer = null;
+      }
+
+      const client = listener;
+      listener = null;
+      heldLocks.clear();
+
+      await Promise.all([
+        client ? client.end() : Promise.resolve(),
+        pool.end()
+      ]);
+    }
+  };
+}
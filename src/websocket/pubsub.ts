@@ -0,0 +1,119 @@
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import { createPostgresPubSub } from './postgresPubSub';
+
+/**
+ * Transport used to fan collaboration traffic out across server processes.
+ * Locks let exactly one process own (and persist) each board.
+ */
+export interface PubSubAdapter {
+  publish(channel: string, message: string): Promise<void>;
+  subscribe(channel: string, handler: (message: string) => void): Promise<void>;
+  unsubscribe(channel: string): Promise<void>;
+  // Locks are re-entrant per adapter: each successful acquire needs its own release
+  tryAcquireLock(key: string): Promise<boolean>;
+  releaseLock(key: string): Promise<void>;
+  // Called when held locks are lost without being released (e.g. connection drop)
+  onLocksLost(handler: () => void): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Shared state for in-memory adapters. Adapters on the same bus deliver each
+ * other's messages and hold locks separately; the cluster (see cluster.ts)
+ * still uses a single adapter and node id per process.
+ */
+export interface InMemoryBus {
+  emitter: EventEmitter;
+  locks: Map<string, { holderId: string; count: number }>;
+}
+
+export function createInMemoryBus(): InMemoryBus {
+  const emitter = new EventEmitter();
+  emitter.setMaxListeners(0);
+  return { emitter, locks: new Map() };
+}
+
+const defaultBus = createInMemoryBus();
+
+/**
+ * Single-process adapter (default). Messages are delivered asynchronously, like a network hop.
+ */
+export function createInMemoryPubSub(bus: InMemoryBus = defaultBus): PubSubAdapter {
+  const adapterId = uuidv4();
+  const listeners = new Map<string, (message: string) => void>();
+  const heldLocks = new Set<string>();
+
+  return {
+    async publish(channel: string, message: string): Promise<void> {
+      setImmediate(() => bus.emitter.emit(channel, message));
+    },
+
+    async subscribe(channel: string, handler: (message: string) => void): Promise<void> {
+      if (listeners.has(channel)) {
+        bus.emitter.off(channel, listeners.get(channel)!);
+      }
+      listeners.set(channel, handler);
+      bus.emitter.on(channel, handler);
+    },
+
+    async unsubscribe(channel: string): Promise<void> {
+      const handler = listeners.get(channel);
+      if (!handler) return;
+      bus.emitter.off(channel, handler);
+      listeners.delete(channel);
+    },
+
+    async tryAcquireLock(key: string): Promise<boolean> {
+      const lock = bus.locks.get(key);
+      if (lock && lock.holderId !== adapterId) {
+        return false;
+      }
+      bus.locks.set(key, { holderId: adapterId, count: (lock?.count || 0) + 1 });
+      heldLocks.add(key);
+      return true;
+    },
+
+    async releaseLock(key: string): Promise<void> {
+      const lock = bus.locks.get(key);
+      if (!lock || lock.holderId !== adapterId) return;
+
+      if (lock.count > 1) {
+        lock.count--;
+      } else {
+        bus.locks.delete(key);
+        heldLocks.delete(key);
+      }
+    },
+
+    onLocksLost(): void {
+      // In-memory locks are never lost
+    },
+
+    async close(): Promise<void> {
+      listeners.forEach((handler, channel) => bus.emitter.off(channel, handler));
+      listeners.clear();
+      heldLocks.forEach(key => bus.locks.delete(key));
+      heldLocks.clear();
+    }
+  };
+}
+
+/**
+ * Create the adapter selected by COLLAB_PUBSUB ('memory' or 'postgres')
+ */
+export function createPubSubAdapter(): PubSubAdapter {
+  const driver = process.env.COLLAB_PUBSUB || 'memory';
+
+  switch (driver) {
+    case 'postgres':
+      if (!process.env.DATABASE_URL) {
+        throw new Error('DATABASE_URL is required for the postgres pub/sub adapter');
+      }
+      return createPostgresPubSub(process.env.DATABASE_URL);
+    case 'memory':
+      return createInMemoryPubSub();
+    default:
+      throw new Error(`Unknown COLLAB_PUBSUB driver: ${driver}`);
+  }
+}
@@ -0,0 +1,38 @@
+import { verifyIdToken } from '../config/firebase';
+
+// How often live connections re-check token expiry and board access
+export const REVALIDATE_INTERVAL_MS = 60 * 1000;
+
+export interface SocketIdentity {
+  firebaseUid: string;
+  email?: string;
+  name?: string;
+  expiresAt: number; // ms since epoch
+}
+
+/**
+ * Verify a Firebase ID token presented on a realtime connection.
+ * Returns null for anonymous connections (no token); throws if the token is invalid.
+ */
+export async function verifySocketToken(token?: unknown): Promise<SocketIdentity | null> {
+  if (token === undefined || token === null || token === '') {
+    return null;
+  }
+
+  if (typeof token !== 'string') {
+    throw new Error('Invalid or expired token');
+  }
+
+  const decodedToken = await verifyIdToken(token);
+
+  return {
+    firebaseUid: decodedToken.uid,
+    email: decodedToken.email,
+    name: decodedToken.name,
+    expiresAt: decodedToken.exp * 1000
+  };
+}
+
+export function isIdentityExpired(identity: SocketIdentity | null): boolean {
+  return identity !== null && identity.expiresAt <= Date.now();
+}
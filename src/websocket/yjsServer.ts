@@ -0,0 +1,168 @@
+import http from 'http';
+import { WebSocket, WebSocketServer, RawData } from 'ws';
+import { resolveBoardAccess } from './boardAccess';
+import { verifySocketToken, isIdentityExpired, SocketIdentity, REVALIDATE_INTERVAL_MS } from './socketAuth';
+import {
+  joinBoardDocument,
+  removePeer,
+  handleYjsMessage,
+  encodeSyncStep1,
+  encodeAwarenessStates,
+  YjsPeer
+} from './boardDocuments';
+
+// Stock y-websocket providers connect to `${serverUrl}/${roomName}`, so the room is the board ID
+export const YJS_WEBSOCKET_PATH = '/collaboration';
+
+const PING_INTERVAL_MS = 30000;
+
+function toUint8Array(data: RawData): Uint8Array {
+  if (Array.isArray(data)) {
+    return new Uint8Array(Buffer.concat(data));
+  }
+  return new Uint8Array(data as ArrayBuffer);
+}
+
+/**
+ * Serve the standard y-websocket protocol on /collaboration/:boardId so
+ * stock Yjs providers (WebsocketProvider) can connect without Socket.IO.
+ *
+ * The Firebase ID token travels as the `token` query parameter; without one the
+ * connection is anonymous and limited to public boards.
+ *
+ * Usage: new WebsocketProvider('ws://host/collaboration', boardId, doc, { params: { token } })
+ */
+export function initYjsWebSocketServer(server: http.Server): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', (request: http.IncomingMessage, socket, head) => {
+    const url = new URL(request.url || '/', 'http://localhost');
+
+    // Leave other upgrade requests (e.g. Socket.IO) to their own handlers
+    if (!url.pathname.startsWith(`${YJS_WEBSOCKET_PATH}/`)) return;
+
+    const boardId = decodeURIComponent(url.pathname.slice(YJS_WEBSOCKET_PATH.length + 1));
+    if (!boardId) {
+      socket.destroy();
+      return;
+    }
+
+    verifySocketToken(url.searchParams.get('token') || undefined)
+      .then(identity => {
+        wss.handleUpgrade(request, socket, head, ws => {
+          setupConnection(ws, boardId, identity);
+        });
+      })
+      .catch(() => {
+        socket.write('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+        socket.destroy();
+      });
+  });
+
+  console.log('✅ Yjs WebSocket server initialized');
+
+  return wss;
+}
+
+function setupConnection(ws: WebSocket, boardId: string, identity: SocketIdentity | null): void {
+  ws.binaryType = 'arraybuffer';
+
+  // Messages that arrive while access is checked and the document loads
+  const queuedMessages: Uint8Array[] = [];
+  let onMessage: ((message: Uint8Array) => void) | null = null;
+  let cleanup: (() => void) | null = null;
+  let isAlive = true;
+
+  ws.on('message', (data: RawData) => {
+    const message = toUint8Array(data);
+    if (onMessage) {
+      onMessage(message);
+    } else {
+      queuedMessages.push(message);
+    }
+  });
+
+  ws.on('pong', () => {
+    isAlive = true;
+  });
+
+  const pingInterval = setInterval(() => {
+    if (!isAlive) {
+      ws.terminate();
+      return;
+    }
+    isAlive = false;
+    ws.ping();
+  }, PING_INTERVAL_MS);
+
+  // Stock providers cannot refresh tokens in place; they reconnect with a new one
+  const revalidateInterval = setInterval(async () => {
+    if (isIdentityExpired(identity)) {
+      ws.close(4401, 'Authentication token expired');
+      return;
+    }
+
+    try {
+      const access = await resolveBoardAccess(boardId, identity?.firebaseUid);
+      if (!access.hasAccess) {
+        ws.close(4403, 'Access to this board was revoked');
+      }
+    } catch (error) {
+      // Keep the connection; access is checked again on the next round
+      console.error('Error revalidating board access:', error);
+    }
+  }, REVALIDATE_INTERVAL_MS);
+
+  ws.on('close', () => {
+    clearInterval(pingInterval);
+    clearInterval(revalidateInterval);
+    cleanup?.();
+  });
+
+  (async () => {
+    const access = await resolveBoardAccess(boardId, identity?.firebaseUid);
+
+    if (!access.hasAccess) {
+      ws.close(4403, 'Access denied to this board');
+      return;
+    }
+
+    const peer: YjsPeer = {
+      send: (message: Uint8Array) => {
+        if (ws.readyState !== WebSocket.OPEN) return;
+        ws.send(message, error => {
+          if (error) ws.close();
+        });
+      },
+      userId: access.dbUserId,
+      readOnly: access.userRole === 'viewer',
+      awarenessClientIds: new Set(),
+      close: (reason: string) => ws.close(4403, reason)
+    };
+
+    const boardDocument = await joinBoardDocument(boardId, peer, () => ws.readyState === WebSocket.OPEN);
+    if (!boardDocument) return;
+    cleanup = () => removePeer(boardDocument, peer);
+
+    onMessage = (message: Uint8Array) => {
+      try {
+        const reply = handleYjsMessage(boardDocument, peer, message);
+        if (reply) peer.send!(reply);
+      } catch (error) {
+        console.error('Error handling Yjs message:', error);
+      }
+    };
+
+    // Start the two-step sync, then share who else is here
+    peer.send!(encodeSyncStep1(boardDocument));
+    const awarenessStates = encodeAwarenessStates(boardDocument);
+    if (awarenessStates) peer.send!(awarenessStates);
+
+    queuedMessages.splice(0).forEach(message => onMessage!(message));
+
+    console.log(`✅ Yjs client joined board ${boardId} (${access.userRole})`);
+  })().catch(error => {
+    console.error('Error setting up Yjs connection:', error);
+    ws.close(1011, 'Failed to join board');
+  });
+}
@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { detectFileType, normalizeMimeType } from '../src/utils/fileTypes';
+
+function pngHeader(width: number, height: number): Buffer {
+  const header = Buffer.alloc(33);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(header, 0);
+  header.writeUInt32BE(13, 8);
+  header.write('IHDR', 12, 'ascii');
+  header.writeUInt32BE(width, 16);
+  header.writeUInt32BE(height, 20);
+  return header;
+}
+
+function isoMediaHeader(brand: string): Buffer {
+  const header = Buffer.alloc(16);
+  header.writeUInt32BE(16, 0);
+  header.write('ftyp', 4, 'ascii');
+  header.write(brand, 8, 'ascii');
+  return header;
+}
+
+test('detects images from their headers', () => {
+  assert.equal(detectFileType(pngHeader(10, 20)), 'image/png');
+
+  const gif = Buffer.alloc(13);
+  gif.write('GIF89a', 0, 'ascii');
+  gif.writeUInt16LE(10, 6);
+  gif.writeUInt16LE(20, 8);
+  assert.equal(detectFileType(gif), 'image/gif');
+});
+
+test('detects PDFs and videos', () => {
+  assert.equal(detectFileType(Buffer.from('%PDF-1.7\n')), 'application/pdf');
+  assert.equal(detectFileType(isoMediaHeader('isom')), 'video/mp4');
+  assert.equal(detectFileType(isoMediaHeader('qt  ')), 'video/quicktime');
+  assert.equal(detectFileType(Buffer.from([0x1a, 0x45, 0xdf, 0xa3, 0x00])), 'video/webm');
+});
+
+test('rejects still images in ISO media containers', () => {
+  assert.equal(detectFileType(isoMediaHeader('heic')), null);
+  assert.equal(detectFileType(isoMediaHeader('avif')), null);
+});
+
+test('detects SVGs after a prolog', () => {
+  assert.equal(detectFileType(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>')), 'image/svg+xml');
+  assert.equal(
+    detectFileType(Buffer.from(
+      '﻿<?xml version="1.0"?>\n<!-- drawing -->\n<!DOCTYPE svg PUBLIC "-//W3C//DTD SVG 1.1//EN" "x.dtd">\n<svg></svg>'
+    )),
+    'image/svg+xml'
+  );
+  assert.equal(detectFileType(Buffer.from('<svg:svg xmlns:svg="http://www.w3.org/2000/svg"/>')), 'image/svg+xml');
+});
+
+test('does not trust text that merely mentions svg', () => {
+  assert.equal(detectFileType(Buffer.from('<html><svg></svg></html>')), null);
+  assert.equal(detectFileType(Buffer.from('<svgfoo/>')), null);
+  assert.equal(detectFileType(Buffer.from('plain text')), null);
+  assert.equal(detectFileType(Buffer.alloc(0)), null);
+});
+
+test('normalizes declared MIME types', () => {
+  assert.equal(normalizeMimeType('image/JPG; charset=binary'), 'image/jpeg');
+  assert.equal(normalizeMimeType('image/x-png'), 'image/png');
+  assert.equal(normalizeMimeType('image/webp'), 'image/webp');
+});
@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { findMentionedMembers, MentionableMember } from '../src/utils/mentions';
+
+const members: MentionableMember[] = [
+  { id: 'jane-doe', email: 'jdoe@example.com', name: 'Jane Doe' },
+  { id: 'jane', email: 'jane.smith@example.com', name: 'Jane' },
+  { id: 'sam-work', email: 'sam@work.example', name: 'Sam Lee' },
+  { id: 'sam-home', email: 'sam@home.example', name: 'Samuel' }
+];
+
+test('mentions members by names with spaces', () => {
+  assert.deepEqual(findMentionedMembers('Thanks @Jane Doe, looks good', members), ['jane-doe']);
+  assert.deepEqual(findMentionedMembers('@sam lee can you check?', members), ['sam-work']);
+});
+
+test('prefers the longest matching name', () => {
+  // "Jane" is a member too, but "Jane Doe" matches more of the text
+  assert.deepEqual(findMentionedMembers('@Jane Doe', members), ['jane-doe']);
+  assert.deepEqual(findMentionedMembers('@Jane please review', members), ['jane']);
+});
+
+test('mentions by email and email username', () => {
+  assert.deepEqual(findMentionedMembers('cc @jane.smith', members), ['jane']);
+  assert.deepEqual(findMentionedMembers('cc @sam@home.example.', members), ['sam-home']);
+});
+
+test('ignores usernames shared by several members', () => {
+  assert.deepEqual(findMentionedMembers('@sam what do you think?', members), []);
+  assert.deepEqual(findMentionedMembers('@sam@work.example what do you think?', members), ['sam-work']);
+});
+
+test('requires mentions to start and end at word boundaries', () => {
+  assert.deepEqual(findMentionedMembers('@Janet and @Samuelson', members), []);
+  assert.deepEqual(findMentionedMembers('mail me at me@Jane', members), []);
+  assert.deepEqual(findMentionedMembers('(@Samuel)', members), []);
+  assert.deepEqual(findMentionedMembers('Ask @Samuel.', members), ['sam-home']);
+});
+
+test('lists each mentioned member once, in order', () => {
+  assert.deepEqual(
+    findMentionedMembers('@Samuel @Jane Doe and again @samuel', members),
+    ['sam-home', 'jane-doe']
+  );
+  assert.deepEqual(findMentionedMembers('no mentions here', members), []);
+});
@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  CURRENT_SCHEMA_VERSION,
+  LEGACY_SCHEMA_VERSION,
+  getSchemaVersion,
+  migrateProjectData,
+  upgradeIncomingProjectData
+} from '../src/utils/projectMigrations';
+
+test('the current version follows the registered migrations', () => {
+  assert.ok(CURRENT_SCHEMA_VERSION > LEGACY_SCHEMA_VERSION);
+});
+
+test('unversioned documents are legacy', () => {
+  assert.equal(getSchemaVersion({ elements: [] }), LEGACY_SCHEMA_VERSION);
+  assert.equal(getSchemaVersion({ schemaVersion: 0 }), LEGACY_SCHEMA_VERSION);
+  assert.equal(getSchemaVersion(null), LEGACY_SCHEMA_VERSION);
+  assert.equal(getSchemaVersion({ schemaVersion: 2 }), 2);
+});
+
+test('migrates legacy documents to the current version', () => {
+  const legacy = {
+    pages: [{ id: 'p', name: 'Page', elements: [{ id: 'a', type: 'rectangle', x: '12', y: ' ', width: 5, height: 5 }] }, { id: 'q', name: 'Empty' }]
+  };
+
+  const { projectData, fromVersion, migrated } = migrateProjectData(legacy);
+  const page = projectData.pages[0];
+
+  assert.equal(migrated, true);
+  assert.equal(fromVersion, LEGACY_SCHEMA_VERSION);
+  assert.equal(projectData.schemaVersion, CURRENT_SCHEMA_VERSION);
+  assert.deepEqual(projectData.elements, []);
+  assert.deepEqual(projectData.pages[1].elements, []);
+  assert.equal(page.elements[0].x, 12);
+  // Blank strings are not numbers and stay for validation to report
+  assert.equal(page.elements[0].y, ' ');
+  assert.deepEqual(page.elements[0].properties, {});
+});
+
+test('does not change the input', () => {
+  const legacy = { elements: [{ id: 'a', type: 'rectangle', x: '1', y: 0, width: 1, height: 1 }] };
+  migrateProjectData(legacy);
+  assert.deepEqual(legacy, { elements: [{ id: 'a', type: 'rectangle', x: '1', y: 0, width: 1, height: 1 }] });
+});
+
+test('leaves current and newer documents alone', () => {
+  const current = { schemaVersion: CURRENT_SCHEMA_VERSION, elements: [] };
+  assert.deepEqual(migrateProjectData(current), { projectData: current, fromVersion: CURRENT_SCHEMA_VERSION, migrated: false });
+
+  const newer = { schemaVersion: CURRENT_SCHEMA_VERSION + 1, elements: [] };
+  assert.equal(migrateProjectData(newer).projectData, newer);
+  assert.equal(migrateProjectData(newer).migrated, false);
+});
+
+test('client data without a version is in the current schema', () => {
+  assert.deepEqual(upgradeIncomingProjectData({ elements: [] }), { elements: [], schemaVersion: CURRENT_SCHEMA_VERSION });
+  assert.equal(upgradeIncomingProjectData({ schemaVersion: 1, elements: [] }).schemaVersion, CURRENT_SCHEMA_VERSION);
+});
@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createInMemoryBus, createInMemoryPubSub } from '../src/websocket/pubsub';
+
+test('adapters on one bus receive each other\'s messages', async () => {
+  const bus = createInMemoryBus();
+  const first = createInMemoryPubSub(bus);
+  const second = createInMemoryPubSub(bus);
+
+  const received: string[] = [];
+  const delivered = new Promise<void>(resolve => {
+    second.subscribe('board:1', message => {
+      received.push(message);
+      resolve();
+    });
+  });
+
+  await first.publish('board:1', 'hello');
+  // Delivery is asynchronous, like a network hop
+  assert.deepEqual(received, []);
+  await delivered;
+  assert.deepEqual(received, ['hello']);
+
+  await second.unsubscribe('board:1');
+  await first.publish('board:1', 'ignored');
+  await new Promise(resolve => setImmediate(resolve));
+  assert.deepEqual(received, ['hello']);
+});
+
+test('a lock is held by one adapter at a time, re-entrantly', async () => {
+  const bus = createInMemoryBus();
+  const first = createInMemoryPubSub(bus);
+  const second = createInMemoryPubSub(bus);
+
+  assert.equal(await first.tryAcquireLock('board-owner:1'), true);
+  assert.equal(await first.tryAcquireLock('board-owner:1'), true);
+  assert.equal(await second.tryAcquireLock('board-owner:1'), false);
+
+  await first.releaseLock('board-owner:1');
+  assert.equal(await second.tryAcquireLock('board-owner:1'), false);
+
+  await first.releaseLock('board-owner:1');
+  assert.equal(await second.tryAcquireLock('board-owner:1'), true);
+});
+
+test('closing an adapter releases its locks', async () => {
+  const bus = createInMemoryBus();
+  const first = createInMemoryPubSub(bus);
+  const second = createInMemoryPubSub(bus);
+
+  await first.tryAcquireLock('board-owner:1');
+  await first.close();
+  assert.equal(await second.tryAcquireLock('board-owner:1'), true);
+});
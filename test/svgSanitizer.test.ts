@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { sanitizeSvg } from '../src/utils/svgSanitizer';
+
+const SVG_NS = 'xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink"';
+
+test('keeps the drawing', () => {
+  const result = sanitizeSvg(`<svg ${SVG_NS} viewBox="0 0 10 10"><rect id="r" width="5" height="5" fill="red"/></svg>`);
+  assert.match(result, /<rect id="r" width="5" height="5" fill="red"\/>/);
+  assert.match(result, /viewBox="0 0 10 10"/);
+});
+
+test('removes scripts, foreign content and event handlers', () => {
+  const result = sanitizeSvg(
+    `<svg ${SVG_NS} onload="alert(1)"><script>alert(2)</script>` +
+    '<foreignObject><div xmlns="http://www.w3.org/1999/xhtml">x</div></foreignObject>' +
+    '<circle r="1" onclick="alert(3)"/></svg>'
+  );
+  assert.doesNotMatch(result, /alert/);
+  assert.doesNotMatch(result, /script|foreignObject/i);
+  assert.match(result, /<circle r="1"\/>/);
+});
+
+test('keeps internal and embedded links only', () => {
+  const result = sanitizeSvg(
+    `<svg ${SVG_NS}>` +
+    '<use xlink:href="#shape"/>' +
+    '<image href="data:image/png;base64,AAAA"/>' +
+    '<image href="https://example.com/tracker.png"/>' +
+    '<a href="javascript:alert(1)"><text>x</text></a>' +
+    '</svg>'
+  );
+  assert.match(result, /xlink:href="#shape"/);
+  assert.match(result, /href="data:image\/png;base64,AAAA"/);
+  assert.doesNotMatch(result, /example\.com|javascript:/);
+});
+
+test('removes external references from styles and paint', () => {
+  const result = sanitizeSvg(
+    `<svg ${SVG_NS}><style>@import url(https://example.com/a.css); rect { fill: url(https://example.com/p) }</style>` +
+    '<rect fill="url(https://example.com/p)" style="background: url(http://x/y)"/>' +
+    '<rect fill="url(#gradient)"/></svg>'
+  );
+  assert.doesNotMatch(result, /example\.com|http:\/\/x/);
+  assert.match(result, /fill="url\(#gradient\)"/);
+});
+
+test('removes animations that rewrite links', () => {
+  const result = sanitizeSvg(
+    `<svg ${SVG_NS}><a><set attributeName="href" to="javascript:alert(1)"/>` +
+    '<animate attributeName="opacity" from="0" to="1"/></a></svg>'
+  );
+  assert.doesNotMatch(result, /<set/);
+  assert.match(result, /<animate attributeName="opacity"/);
+});
+
+test('rejects entities and documents that are not SVG', () => {
+  assert.throws(() => sanitizeSvg('<!DOCTYPE svg [<!ENTITY x "y">]><svg>&x;</svg>'), /entities/);
+  assert.throws(() => sanitizeSvg('<html></html>'), /Not an SVG document/);
+  assert.throws(() => sanitizeSvg('<svg><rect></svg>'));
+});
@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { getProjectDataErrors, validateProjectData } from '../src/utils/validators';
+
+function shape(id: string): Record<string, unknown> {
+  return { id, type: 'shape', x: 0, y: 0, width: 10, height: 10, properties: { shapeType: 'rectangle' } };
+}
+
+test('accepts a well-formed project', () => {
+  const projectData = {
+    elements: [],
+    pages: [{ id: 'page-1', name: 'Page 1', elements: [shape('a'), shape('b')] }],
+    settings: { canvasWidth: 800, canvasHeight: 600 }
+  };
+  assert.deepEqual(getProjectDataErrors(projectData), []);
+  assert.equal(validateProjectData(projectData), true);
+});
+
+test('rejects documents without content', () => {
+  assert.deepEqual(getProjectDataErrors(null), [{ path: 'projectData', message: 'must be an object' }]);
+  assert.deepEqual(getProjectDataErrors({}), [{ path: 'projectData', message: 'must contain elements or pages' }]);
+  assert.equal(validateProjectData([]), false);
+});
+
+test('reports the path of each invalid field', () => {
+  const errors = getProjectDataErrors({
+    pages: [{
+      id: 'page-1',
+      name: 'Page 1',
+      elements: [{ ...shape('a'), x: 'left' }, { ...shape('b'), width: -1 }]
+    }]
+  });
+  const paths = errors.map(error => error.path);
+  assert.ok(paths.includes('projectData.pages[0].elements[0].x'));
+  assert.ok(paths.includes('projectData.pages[0].elements[1].width'));
+});
+
+test('rejects duplicate ids and missing required properties', () => {
+  const errors = getProjectDataErrors({
+    elements: [
+      shape('a'),
+      shape('a'),
+      { id: 'img', type: 'image', x: 0, y: 0, width: 1, height: 1, properties: {} }
+    ]
+  });
+  assert.deepEqual(
+    errors.map(error => error.path),
+    ['projectData.elements[1].id', 'projectData.elements[2].properties.src']
+  );
+});
+
+test('validates settings', () => {
+  const errors = getProjectDataErrors({ elements: [], settings: { canvasWidth: 0, canvasHeight: 600 } });
+  assert.deepEqual(errors.map(error => error.path), ['projectData.settings.canvasWidth']);
+});
+
+test('uses the given root path', () => {
+  assert.deepEqual(getProjectDataErrors('x', 'version.projectData'), [
+    { path: 'version.projectData', message: 'must be an object' }
+  ]);
+});
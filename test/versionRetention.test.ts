@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { selectExpiredVersions } from '../src/utils/versionRetention';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+function version(id: string, createdAt: string): { id: string; createdAt: Date } {
+  return { id, createdAt: new Date(createdAt) };
+}
+
+test('keeps every snapshot of the last hour', () => {
+  const versions = [
+    version('a', '2026-10-19T11:55:00Z'),
+    version('b', '2026-10-19T11:50:00Z'),
+    version('c', '2026-10-19T11:10:00Z')
+  ];
+  assert.deepEqual(selectExpiredVersions(versions, NOW), []);
+});
+
+test('keeps the newest snapshot per hour during the first day', () => {
+  const versions = [
+    version('older', '2026-10-19T08:10:00Z'),
+    version('newer', '2026-10-19T08:40:00Z'),
+    version('other-hour', '2026-10-19T07:40:00Z')
+  ];
+  assert.deepEqual(selectExpiredVersions(versions, NOW), ['older']);
+});
+
+test('keeps the newest snapshot per day during the first month', () => {
+  const versions = [
+    version('morning', '2026-10-15T03:00:00Z'),
+    version('evening', '2026-10-15T20:00:00Z'),
+    version('day-before', '2026-10-14T20:00:00Z')
+  ];
+  assert.deepEqual(selectExpiredVersions(versions, NOW), ['morning']);
+});
+
+test('keeps the newest snapshot per week after a month', () => {
+  const versions = [
+    version('saturday', '2026-08-01T10:00:00Z'),
+    version('sunday', '2026-08-02T10:00:00Z'),
+    version('july', '2026-07-01T10:00:00Z')
+  ];
+  assert.deepEqual(selectExpiredVersions(versions, NOW), ['saturday']);
+});
+
+test('does not depend on the order of the input', () => {
+  const versions = [
+    version('a', '2026-10-15T20:00:00Z'),
+    version('b', '2026-10-15T03:00:00Z'),
+    version('c', '2026-10-15T12:00:00Z')
+  ];
+  assert.deepEqual(selectExpiredVersions(versions, NOW).sort(), ['b', 'c']);
+  assert.deepEqual(selectExpiredVersions([...versions].reverse(), NOW).sort(), ['b', 'c']);
+});